@@ -4,54 +4,111 @@
  * This module handles the automatic selection of the best AI model based on:
  * - Prompt enhancement recommendations
  * - Number of reference images available
+ * - Requested aspect ratio and style
  * - Model capabilities and rankings
  * 
- * Uses an elimination-based approach starting with all models and narrowing down
- * until the optimal model is selected.
+ * Uses a weighted scoring approach: every candidate model receives a score per
+ * signal, the highest total wins, and the full score table is returned so it is
+ * always visible why one model beat another.
  */
 
+import { MODEL_CONFIG, GUIDANCE_NAMES, GuidanceName, getAutoSelectionModels, isImageModelConfig } from './modelConfig';
+
 // Model capabilities and rankings
 interface ModelCapabilities {
   name: string;
   rank: number; // Lower rank = better (used as tie-breaker)
+  category: 'generation' | 'image-edit';
   canHandleText: boolean;
-  canHandleImageEdit: boolean;
+  textRendering: 'none' | 'short' | 'long'; // Longest text the model renders reliably
   maxReferenceImages: number;
   supportedGuidanceTypes: ('CONTEXT' | 'STYLE' | 'CONTENT' | 'CHARACTER')[];
+  strongStyles: string[]; // Preset styles the model is noticeably good at
 }
 
-const MODEL_CAPABILITIES: ModelCapabilities[] = [
-  {
-    name: 'Lucid Origin',
-    rank: 1,
-    canHandleText: true, // Can handle short text (1-2 words)
-    canHandleImageEdit: true,
-    maxReferenceImages: 1,
-    supportedGuidanceTypes: ['CONTENT', 'STYLE']
-  },
-  {
-    name: 'FLUX.1 Kontext Pro',
-    rank: 2,
-    canHandleText: true,
-    canHandleImageEdit: false,
-    maxReferenceImages: 1,
-    supportedGuidanceTypes: ['CONTEXT']
-  },
-  {
-    name: 'Leonardo Phoenix 1.0',
-    rank: 3,
-    canHandleText: true,
-    canHandleImageEdit: false,
-    maxReferenceImages: 6,
-    supportedGuidanceTypes: ['CONTENT', 'STYLE', 'CHARACTER']
+// Registry guidance names and the codes used in recommendations
+const GUIDANCE_CODES: Record<GuidanceName, 'CONTEXT' | 'STYLE' | 'CONTENT' | 'CHARACTER'> = {
+  'Context Images': 'CONTEXT',
+  'Style Reference': 'STYLE',
+  'Content Reference': 'CONTENT',
+  'Character Reference': 'CHARACTER'
+};
+
+// Build a model's capabilities from its entry in the model registry (modelConfig.ts)
+function buildCapabilities(modelName: string): ModelCapabilities {
+  const config = MODEL_CONFIG[modelName];
+  if (!isImageModelConfig(config) || !config.autoSelection) {
+    throw new Error(`${modelName} is not an auto selection model`);
   }
-];
+  const guidance = config.supports.guidance;
+  const { rank, textRendering, strongStyles } = config.autoSelection;
+  
+  return {
+    name: modelName,
+    rank,
+    category: config.nodeType === 'image-edit' ? 'image-edit' : 'generation',
+    canHandleText: textRendering !== 'none',
+    textRendering,
+    maxReferenceImages: Math.max(0, ...Object.values(guidance).map(entry => entry.maxInputs)),
+    supportedGuidanceTypes: GUIDANCE_NAMES.filter(name => guidance[name]).map(name => GUIDANCE_CODES[name]),
+    strongStyles
+  };
+}
+
+const MODEL_CAPABILITIES: ModelCapabilities[] = getAutoSelectionModels()
+  .map(buildCapabilities)
+  .sort((a, b) => a.rank - b.rank);
+
+// Signals every candidate is scored on
+export type ScoringSignal = 'imageEdit' | 'referenceImages' | 'text' | 'guidance' | 'style' | 'rank';
+
+// Weight of each signal. The ordering matters: an image edit request outweighs
+// reference images, which outweigh text needs, which outweigh guidance preferences.
+// Style only nudges between otherwise close models, and rank is the final tie-breaker.
+// Aspect ratio is not scored: every auto selection model supports every ratio.
+export const SCORING_WEIGHTS: Record<ScoringSignal, number> = {
+  imageEdit: 1000,
+  referenceImages: 500,
+  text: 100,
+  guidance: 40,
+  style: 5,
+  rank: 1
+};
+
+export interface ModelScore {
+  name: string;
+  total: number;
+  signals: Record<ScoringSignal, number>;
+}
+
+// Optional generation settings that also feed into scoring
+export interface SelectionContext {
+  style?: string;
+}
+
+export type GuidanceTypeName = GuidanceName;
+
+// Structured record of how a model was chosen, shown to the user as "Why this model?"
+export interface SelectionTrace {
+  selectedModel: string;
+  originalPrompt?: string;
+  recommendationString: string;
+  recommendation: ParsedRecommendation;
+  textComplexity: TextComplexityResult;
+  referenceImageCount: number;
+  context: SelectionContext;
+  scores: ModelScore[];
+  ruledOut: { name: string; reasons: string[] }[];
+  guidanceType?: GuidanceTypeName;
+}
 
 // Image edit models (separate category)
-const IMAGE_EDIT_MODELS = ['FLUX.1 Kontext'];
+const IMAGE_EDIT_MODELS = MODEL_CAPABILITIES
+  .filter(model => model.category === 'image-edit')
+  .map(model => model.name);
 
 // Parse recommendation string from prompt enhancement
-interface ParsedRecommendation {
+export interface ParsedRecommendation {
   needsText: boolean;
   needsImageEdit: boolean;
   preferredGuidanceTypes: ('STYLE' | 'CONTENT' | 'CHARACTER')[];
@@ -79,16 +136,16 @@ export function parseRecommendation(recommendationString: string): ParsedRecomme
 export function selectGuidanceType(
   modelName: string, 
   preferredGuidanceTypes: ('STYLE' | 'CONTENT' | 'CHARACTER')[]
-): 'Context Images' | 'Style Reference' | 'Content Reference' | 'Character Reference' {
-  
-  // Flux models always use Context Images
-  if (modelName === 'FLUX.1 Kontext Pro' || modelName === 'FLUX.1 Kontext') {
-    return 'Context Images';
-  }
+): GuidanceTypeName {
   
   const model = MODEL_CAPABILITIES.find(m => m.name === modelName);
   if (!model) return 'Style Reference'; // Fallback
   
+  // Context image models (FLUX Kontext) always use Context Images
+  if (model.supportedGuidanceTypes.includes('CONTEXT')) {
+    return 'Context Images';
+  }
+  
   // For other models, use the first preferred guidance type that the model supports
   for (const preferredType of preferredGuidanceTypes) {
     if (model.supportedGuidanceTypes.includes(preferredType)) {
@@ -108,8 +165,15 @@ export function selectGuidanceType(
   return 'Style Reference'; // Final fallback
 }
 
-// Helper function to analyze text complexity from the recommendation string
-function analyzeTextComplexity(recommendationString: string, originalPrompt?: string): 'none' | 'short' | 'long' {
+// Result of text complexity detection, including the quoted-text pattern that decided it (if any)
+export interface TextComplexityResult {
+  complexity: 'none' | 'short' | 'long';
+  matchedPattern?: string;
+  matchedText?: string;
+}
+
+// Helper function to analyze text complexity from the recommendation string, reporting how it was decided
+export function analyzeTextComplexity(recommendationString: string, originalPrompt?: string): TextComplexityResult {
   // Override Gemini's classification if we can detect specific quoted text
   if (originalPrompt && (recommendationString.includes('NEEDS TEXT LONG') || recommendationString.includes('NEEDS TEXT SHORT'))) {
     // Look for quoted text patterns to override Gemini's classification
@@ -128,10 +192,11 @@ function analyzeTextComplexity(recommendationString: string, originalPrompt?: st
       for (const match of matches) {
         if (match[1]) {
           const wordCount = match[1].trim().split(/\s+/).length;
+          const matched = { matchedPattern: pattern.source, matchedText: match[1] };
           if (wordCount <= 2) {
-            return 'short';
+            return { complexity: 'short', ...matched };
           } else if (wordCount >= 3) {
-            return 'long';
+            return { complexity: 'long', ...matched };
           }
         }
       }
@@ -140,11 +205,11 @@ function analyzeTextComplexity(recommendationString: string, originalPrompt?: st
   
   // Check for the new specific text indicators
   if (recommendationString.includes('NEEDS TEXT LONG')) {
-    return 'long';
+    return { complexity: 'long' };
   }
   
   if (recommendationString.includes('NEEDS TEXT SHORT')) {
-    return 'short';
+    return { complexity: 'short' };
   }
   
   // If neither specific indicator is found, check for generic NEEDS TEXT
@@ -165,7 +230,7 @@ function analyzeTextComplexity(recommendationString: string, originalPrompt?: st
         if (match && match[1]) {
           const wordCount = match[1].trim().split(/\s+/).length;
           if (wordCount <= 2) {
-            return 'short';
+            return { complexity: 'short', matchedPattern: pattern.source, matchedText: match[1] };
           }
         }
       }
@@ -185,8 +250,9 @@ function analyzeTextComplexity(recommendationString: string, originalPrompt?: st
       ];
       
       for (const pattern of longTextPatterns) {
-        if (originalPrompt.match(pattern)) {
-          return 'long';
+        const match = originalPrompt.match(pattern);
+        if (match) {
+          return { complexity: 'long', matchedPattern: pattern.source, matchedText: match[0] };
         }
       }
       
@@ -195,98 +261,174 @@ function analyzeTextComplexity(recommendationString: string, originalPrompt?: st
       
       // If the prompt itself is short and simple, likely needs short text
       if (promptWordCount <= 5) {
-        return 'short';
+        return { complexity: 'short' };
       }
     }
     
     // Default to short text for ambiguous cases (Lucid Origin is better for general use)
-    return 'short';
+    return { complexity: 'short' };
   }
   
-  return 'none';
+  return { complexity: 'none' };
 }
 
-// Main auto model selection function
-export function selectOptimalModel(
-  recommendationString: string,
+// Score a single candidate against every signal
+function scoreModel(
+  model: ModelCapabilities,
+  recommendation: ParsedRecommendation,
+  textComplexity: 'none' | 'short' | 'long',
   referenceImageCount: number,
-  originalPrompt?: string
-): { selectedModel: string; recommendedGuidanceType?: 'Context Images' | 'Style Reference' | 'Content Reference' | 'Character Reference' } {
-  
-  const recommendation = parseRecommendation(recommendationString);
-  
-  // Step 1: Handle image editing (separate category)
+  context: SelectionContext
+): ModelScore {
+  const signals: Record<ScoringSignal, number> = {
+    imageEdit: 0,
+    referenceImages: 0,
+    text: 0,
+    guidance: 0,
+    style: 0,
+    rank: 0
+  };
+
+  // Image edit models are only considered for edit requests, and always win them
+  const isEditModel = model.category === 'image-edit';
   if (recommendation.needsImageEdit) {
-    return { 
-      selectedModel: 'FLUX.1 Kontext',
-      recommendedGuidanceType: referenceImageCount > 0 ? 'Context Images' : undefined
-    };
+    signals.imageEdit = isEditModel ? SCORING_WEIGHTS.imageEdit : 0;
+  } else if (isEditModel) {
+    signals.imageEdit = -SCORING_WEIGHTS.imageEdit;
   }
-  
-  // Step 2: If there are reference images, ALWAYS use FLUX.1 Kontext Pro
+
+  // Reference images favour context-image models; too many images for a model is penalised
   if (referenceImageCount > 0) {
-    return {
-      selectedModel: 'FLUX.1 Kontext Pro',
-      recommendedGuidanceType: 'Context Images'
-    };
-  }
-  
-  // Step 3: Start with all available models (no reference images)
-  let candidateModels = [...MODEL_CAPABILITIES];
-  
-  // Step 4: Handle text requirements with specific model selection
-  if (recommendation.needsText) {
-    const textComplexity = analyzeTextComplexity(recommendationString, originalPrompt);
-    
-    if (textComplexity === 'long') {
-      return {
-        selectedModel: 'Leonardo Phoenix 1.0',
-        recommendedGuidanceType: recommendation.preferredGuidanceTypes.length > 0 
-          ? selectGuidanceType('Leonardo Phoenix 1.0', recommendation.preferredGuidanceTypes)
-          : undefined
-      };
-    } else if (textComplexity === 'short') {
-      return {
-        selectedModel: 'Lucid Origin',
-        recommendedGuidanceType: recommendation.preferredGuidanceTypes.length > 0 
-          ? selectGuidanceType('Lucid Origin', recommendation.preferredGuidanceTypes)
-          : undefined
-      };
+    if (model.supportedGuidanceTypes.includes('CONTEXT')) {
+      signals.referenceImages += SCORING_WEIGHTS.referenceImages;
+    }
+    if (referenceImageCount > model.maxReferenceImages) {
+      signals.referenceImages -= SCORING_WEIGHTS.referenceImages;
     }
   }
-  
-  // Step 5: If we have preferred guidance types, prefer models that support them
-  if (recommendation.preferredGuidanceTypes.length > 0) {
-    const modelsWithPreferredGuidance = candidateModels.filter(model =>
-      recommendation.preferredGuidanceTypes.some(type => model.supportedGuidanceTypes.includes(type))
-    );
-    
-    // If we found models with preferred guidance, use those
-    if (modelsWithPreferredGuidance.length > 0) {
-      candidateModels = modelsWithPreferredGuidance;
+
+  // Text rendering: exact match scores full weight, a model that handles longer text scores half
+  if (textComplexity !== 'none' && model.canHandleText) {
+    if (model.textRendering === textComplexity) {
+      signals.text = SCORING_WEIGHTS.text;
+    } else if (textComplexity === 'short' && model.textRendering === 'long') {
+      signals.text = SCORING_WEIGHTS.text / 2;
     }
   }
+
+  // Guidance: reward supporting any of the preferred guidance types
+  if (recommendation.preferredGuidanceTypes.some(type => model.supportedGuidanceTypes.includes(type))) {
+    signals.guidance = SCORING_WEIGHTS.guidance;
+  }
+
+  // Style: small bonus for models that are strong at the requested preset
+  if (context.style && model.strongStyles.includes(context.style)) {
+    signals.style = SCORING_WEIGHTS.style;
+  }
+
+  // Rank: lower rank scores higher so it breaks any remaining ties. The score comes from the
+  // position in the rank-sorted list, so gaps in the configured ranks cannot make it zero or negative.
+  const rankPosition = MODEL_CAPABILITIES.findIndex(candidate => candidate.name === model.name);
+  signals.rank = (MODEL_CAPABILITIES.length - rankPosition) * SCORING_WEIGHTS.rank;
+
+  const total = Object.values(signals).reduce((sum, value) => sum + value, 0);
+  return { name: model.name, total, signals };
+}
+
+// Explain why a losing candidate did not win, based on its signal scores
+function explainRuledOut(
+  score: ModelScore,
+  winner: ModelScore,
+  recommendation: ParsedRecommendation,
+  textComplexity: 'none' | 'short' | 'long',
+  referenceImageCount: number
+): string[] {
+  const model = MODEL_CAPABILITIES.find(m => m.name === score.name);
+  if (!model) return [];
   
-  // Step 6: If no candidates remain, fallback to Lucid Origin
-  if (candidateModels.length === 0) {
-    return { 
-      selectedModel: 'Lucid Origin',
-      recommendedGuidanceType: undefined
-    };
+  const reasons: string[] = [];
+  if (score.signals.imageEdit < 0) {
+    reasons.push('Image edit model, but the prompt is not an edit');
+  } else if (recommendation.needsImageEdit && score.signals.imageEdit === 0) {
+    reasons.push('Not an image edit model');
+  }
+  if (referenceImageCount > model.maxReferenceImages) {
+    reasons.push(`Accepts at most ${model.maxReferenceImages} reference image${model.maxReferenceImages > 1 ? 's' : ''} (${referenceImageCount} provided)`);
+  } else if (referenceImageCount > 0 && score.signals.referenceImages === 0) {
+    reasons.push('Does not use context images for references');
+  }
+  if (textComplexity !== 'none' && score.signals.text < SCORING_WEIGHTS.text) {
+    reasons.push(score.signals.text > 0
+      ? `Renders ${model.textRendering} text, prompt needs ${textComplexity} text`
+      : `Not suited to ${textComplexity} text`);
+  }
+  if (recommendation.preferredGuidanceTypes.length > 0 && score.signals.guidance === 0) {
+    reasons.push(`Supports none of ${recommendation.preferredGuidanceTypes.join(', ')} guidance`);
+  }
+  if (reasons.length === 0) {
+    reasons.push(`Outscored by ${winner.name} (${score.total} vs ${winner.total})`);
   }
+  return reasons;
+}
+
+// Main auto model selection function
+export function selectOptimalModel(
+  recommendationString: string,
+  referenceImageCount: number,
+  originalPrompt?: string,
+  context: SelectionContext = {}
+): {
+  selectedModel: string;
+  recommendedGuidanceType?: GuidanceTypeName;
+  scores: ModelScore[];
+  trace: SelectionTrace;
+} {
+  
+  const recommendation = parseRecommendation(recommendationString);
   
-  // Step 7: Select the best model (lowest rank wins)
-  candidateModels.sort((a, b) => a.rank - b.rank);
-  const selectedModel = candidateModels[0];
+  // Step 1: Only analyze text complexity when the recommendation asks for text
+  const textComplexity: TextComplexityResult = recommendation.needsText
+    ? analyzeTextComplexity(recommendationString, originalPrompt)
+    : { complexity: 'none' };
   
-  // Step 8: No reference images, so no guidance type needed
-  const recommendedGuidanceType = undefined;
+  // Step 2: Score every candidate, highest total first
+  const scores = MODEL_CAPABILITIES
+    .map(model => scoreModel(model, recommendation, textComplexity.complexity, referenceImageCount, context))
+    .sort((a, b) => b.total - a.total);
+  
+  // Step 3: The top scorer wins
+  const winner = scores[0];
+  const selectedModel = winner.name;
+  
+  // Step 4: Guidance type only matters when there are reference images to apply
+  const recommendedGuidanceType = referenceImageCount > 0
+    ? selectGuidanceType(selectedModel, recommendation.preferredGuidanceTypes)
+    : undefined;
+  
+  // Step 5: Record why every other candidate lost
+  const ruledOut = scores.slice(1).map(score => ({
+    name: score.name,
+    reasons: explainRuledOut(score, winner, recommendation, textComplexity.complexity, referenceImageCount)
+  }));
   
   return {
-    selectedModel: selectedModel.name,
-    recommendedGuidanceType
+    selectedModel,
+    recommendedGuidanceType,
+    scores,
+    trace: {
+      selectedModel,
+      originalPrompt,
+      recommendationString,
+      recommendation,
+      textComplexity,
+      referenceImageCount,
+      context,
+      scores,
+      ruledOut,
+      guidanceType: recommendedGuidanceType
+    }
   };
 }
 
 // Export for debugging/testing
-export { MODEL_CAPABILITIES, IMAGE_EDIT_MODELS };
\ No newline at end of file
+export { MODEL_CAPABILITIES, IMAGE_EDIT_MODELS };
@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { MediaItem } from '../types';
+
+interface AnimateModalProps {
+  source: MediaItem | null; // Image to animate; the modal is closed when null
+  motionStrength: number;
+  onClose: () => void;
+  onAnimate: (source: MediaItem, motionStrength: number) => void;
+}
+
+const AnimateModal: React.FC<AnimateModalProps> = ({ source, motionStrength, onClose, onAnimate }) => {
+  const [strength, setStrength] = useState(motionStrength);
+
+  useEffect(() => {
+    if (source) {
+      setStrength(motionStrength);
+    }
+  }, [source, motionStrength]);
+
+  if (!source) return null;
+
+  const handleAnimate = () => {
+    onAnimate(source, strength);
+    onClose();
+  };
+
+  return (
+    <div
+        className="leo-modal-overlay"
+        onClick={onClose}
+    >
+      <div
+        className="leo-modal"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="leo-modal-header">
+          <h2 className="leo-modal-title">Animate Image</h2>
+          <button onClick={onClose} className="leo-modal-close">&times;</button>
+        </div>
+
+        <div className="leo-stack leo-stack-6">
+          <img
+            src={source.url}
+            alt="Image to animate"
+            style={{ width: '100%', maxHeight: '240px', objectFit: 'contain', borderRadius: 'var(--radius-lg)' }}
+          />
+
+          <div className="leo-stack leo-stack-3">
+            <label htmlFor="motion-strength" className="leo-text-sm leo-font-medium leo-text-secondary">
+              Motion Strength: {strength}
+            </label>
+            <input
+              type="range"
+              id="motion-strength"
+              min="1"
+              max="10"
+              step="1"
+              value={strength}
+              onChange={(e) => setStrength(parseInt(e.target.value))}
+              className="leo-range"
+            />
+            <p className="leo-text-xs leo-text-tertiary">
+              1 gives subtle movement, 10 gives dramatic motion.
+            </p>
+          </div>
+        </div>
+
+        <div className="leo-modal-footer">
+          <button
+            onClick={onClose}
+            className="leo-button leo-button-secondary leo-button-md"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleAnimate}
+            className="leo-button leo-button-primary leo-button-md"
+          >
+            Animate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnimateModal;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import {
+  GalleryFilters,
+  GalleryStatusFilter,
+  ReferenceFilter,
+  EMPTY_GALLERY_FILTERS,
+  GALLERY_STATUS_LABELS,
+  REFERENCE_FILTER_LABELS,
+  hasActiveFilters,
+} from '../galleryFilters';
+import { MediaCollection } from '../types';
+
+interface GalleryFilterBarProps {
+  filters: GalleryFilters;
+  onChange: (filters: GalleryFilters) => void;
+  options: { models: string[]; actualModels: string[]; aspectRatios: string[] };
+  tags: string[];
+  collections: MediaCollection[];
+  onDeleteCollection: (collectionId: string) => void;
+}
+
+const GalleryFilterBar: React.FC<GalleryFilterBarProps> = ({ filters, onChange, options, tags, collections, onDeleteCollection }) => {
+  const [showFilters, setShowFilters] = useState(false);
+
+  const update = (changes: Partial<GalleryFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  // Count everything except the search text and favorites toggle, which are visible on their own
+  const activeFilterCount = (Object.keys(EMPTY_GALLERY_FILTERS) as (keyof GalleryFilters)[])
+    .filter(key => key !== 'query' && key !== 'favoritesOnly' && filters[key] !== EMPTY_GALLERY_FILTERS[key]).length;
+
+  return (
+    <div className="leo-stack leo-stack-3" style={{ marginTop: '12px' }}>
+      <div className="leo-cluster leo-cluster-2" style={{ alignItems: 'center', flexWrap: 'nowrap' }}>
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search prompts..."
+          className="leo-input"
+          aria-label="Search prompts"
+        />
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`leo-button leo-button-sm ${showFilters || activeFilterCount > 0 ? 'leo-button-primary' : 'leo-button-secondary'}`}
+          style={{ whiteSpace: 'nowrap' }}
+          aria-expanded={showFilters}
+        >
+          Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+        </button>
+        <button
+          onClick={() => update({ favoritesOnly: !filters.favoritesOnly })}
+          className={`leo-button leo-button-sm ${filters.favoritesOnly ? 'leo-button-primary' : 'leo-button-secondary'}`}
+          style={{ whiteSpace: 'nowrap' }}
+          aria-pressed={filters.favoritesOnly}
+          title="Show favorites only"
+        >
+          {filters.favoritesOnly ? '★' : '☆'}
+        </button>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange(EMPTY_GALLERY_FILTERS)}
+            className="leo-button leo-button-ghost leo-button-sm"
+            style={{ whiteSpace: 'nowrap' }}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="leo-gallery-filters">
+          <select value={filters.model} onChange={(e) => update({ model: e.target.value })} className="leo-select" aria-label="Model">
+            <option value="">Any model</option>
+            {options.models.map(model => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+          <select value={filters.actualModel} onChange={(e) => update({ actualModel: e.target.value })} className="leo-select" aria-label="Model chosen by Auto">
+            <option value="">Any model chosen by Auto</option>
+            {options.actualModels.map(model => (
+              <option key={model} value={model}>Auto → {model}</option>
+            ))}
+          </select>
+          <select value={filters.aspectRatio} onChange={(e) => update({ aspectRatio: e.target.value })} className="leo-select" aria-label="Aspect ratio">
+            <option value="">Any aspect ratio</option>
+            {options.aspectRatios.map(ratio => (
+              <option key={ratio} value={ratio}>{ratio}</option>
+            ))}
+          </select>
+          <select value={filters.status} onChange={(e) => update({ status: e.target.value as GalleryStatusFilter })} className="leo-select" aria-label="Status">
+            {(Object.keys(GALLERY_STATUS_LABELS) as GalleryStatusFilter[]).map(status => (
+              <option key={status} value={status}>{GALLERY_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <select value={filters.references} onChange={(e) => update({ references: e.target.value as ReferenceFilter })} className="leo-select" aria-label="Reference images">
+            {(Object.keys(REFERENCE_FILTER_LABELS) as ReferenceFilter[]).map(option => (
+              <option key={option} value={option}>{REFERENCE_FILTER_LABELS[option]}</option>
+            ))}
+          </select>
+          <select value={filters.tag} onChange={(e) => update({ tag: e.target.value })} className="leo-select" aria-label="Tag">
+            <option value="">Any tag</option>
+            {tags.map(tag => (
+              <option key={tag} value={tag}>{tag}</option>
+            ))}
+          </select>
+          <div className="leo-cluster leo-cluster-2" style={{ alignItems: 'center', flexWrap: 'nowrap' }}>
+            <select value={filters.collectionId} onChange={(e) => update({ collectionId: e.target.value })} className="leo-select" aria-label="Collection">
+              <option value="">Any collection</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+            {filters.collectionId && (
+              <button
+                onClick={() => {
+                  const collection = collections.find(c => c.id === filters.collectionId);
+                  if (collection && confirm(`Delete the collection "${collection.name}"? Its images are kept.`)) {
+                    onDeleteCollection(collection.id);
+                    update({ collectionId: '' });
+                  }
+                }}
+                className="leo-button leo-button-ghost leo-button-sm"
+                style={{ whiteSpace: 'nowrap' }}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+          <div className="leo-cluster leo-cluster-2" style={{ alignItems: 'center', flexWrap: 'nowrap' }}>
+            <input
+              type="date"
+              value={filters.dateFrom}
+              max={filters.dateTo || undefined}
+              onChange={(e) => update({ dateFrom: e.target.value })}
+              className="leo-input"
+              aria-label="From date"
+            />
+            <span className="leo-text-xs leo-text-tertiary">to</span>
+            <input
+              type="date"
+              value={filters.dateTo}
+              min={filters.dateFrom || undefined}
+              onChange={(e) => update({ dateTo: e.target.value })}
+              className="leo-input"
+              aria-label="To date"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GalleryFilterBar;
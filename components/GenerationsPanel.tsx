@@ -1,6 +1,6 @@
 import React from 'react';
 import { MediaItem } from '../types';
-import ImageViewer, { getExpandedImageSrc } from './ImageViewer';
+import ImageViewer from './ImageViewer';
 
 interface GenerationsPanelProps {
   isOpen: boolean;
@@ -63,15 +63,11 @@ const GenerationsPanel: React.FC<GenerationsPanelProps> = ({ isOpen, onClose, ge
                     const imagesInRun = groupedByRun[runId]
                       .filter(item => item.type === 'image')
                       .map(item => ({ src: item.url, alt: `Generation ${groupedByRun[runId].indexOf(item) + 1}` }));
-                    
-                    const isCurrentlyViewed = getExpandedImageSrc() === gen.url;
-                    
+
                     return (
                       <div 
                         key={`${gen.mediaId}-${index}`} 
-                        className={`rounded-lg overflow-hidden group relative aspect-square bg-slate-800 cursor-grab ${
-                          isCurrentlyViewed ? 'ring-2 ring-blue-500 ring-offset-2 ring-offset-slate-900' : ''
-                        }`}
+                        className="rounded-lg overflow-hidden group relative aspect-square bg-slate-800 cursor-grab"
                         style={{ height: '120px' }}
                         draggable="true"
                         onDragStart={(e) => handleDragStart(e, gen)}
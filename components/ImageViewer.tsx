@@ -1,33 +1,55 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 
-interface ImageItem {
+export interface ImageItem {
   src: string;
   alt: string;
+  type?: 'image' | 'video';
+  id?: string; // mediaId, passed back to actions
+  parentId?: string; // id of the image this one was derived from
+  label?: string; // How it was derived, e.g. "Upscaled"
 }
 
+// Action offered on still images, both on the thumbnail and in the expanded view
+export interface ImageViewerAction {
+  label: string;
+  title?: string;
+  onSelect: (image: ImageItem) => void;
+}
+
+// Renders extra controls under the expanded image, e.g. favorites and tags
+export type ImageViewerFooter = (image: ImageItem) => React.ReactNode;
+
 interface ImageViewerProps {
   src: string;
   alt: string;
+  type?: 'image' | 'video';
+  id?: string;
   className?: string;
   images?: ImageItem[];
   initialIndex?: number;
   sidebarOpen?: boolean;
+  actions?: ImageViewerAction[];
+  footer?: ImageViewerFooter;
 }
 
 const ImageViewer: React.FC<ImageViewerProps> = ({ 
   src, 
   alt, 
+  type = 'image',
+  id,
   className = '', 
   images = [], 
   initialIndex = 0,
-  sidebarOpen = true
+  sidebarOpen = true,
+  actions = [],
+  footer
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
   const [isZoomedIn, setIsZoomedIn] = useState(false);
   
-  const allImages = images.length > 0 ? images : [{ src, alt }];
+  const allImages: ImageItem[] = images.length > 0 ? images : [{ src, alt, type, id }];
   const hasMultipleImages = allImages.length > 1;
   const scrollDelta = useRef(0);
   const thumbnailSidebarRef = useRef<HTMLDivElement>(null);
@@ -116,6 +138,8 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
     if (!isExpanded) return;
     
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave arrow keys to text fields in the footer
+      if (e.target instanceof HTMLInputElement && e.key !== 'Escape') return;
       if (e.key === 'Escape') {
         closeExpanded();
       } else if (e.key === 'ArrowLeft' && hasMultipleImages) {
@@ -201,15 +225,73 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
     setIsZoomedIn(false);
   }, []);
 
+  // The current image with every version derived from the same original, for the version switcher
+  const versionIndexes = useMemo(() => {
+    const current = allImages[currentIndex];
+    if (!current?.id) return [];
+    const byId = new Map(allImages.map(image => [image.id, image]));
+    const rootOf = (image: ImageItem) => {
+      let root = image;
+      const seen = new Set<string | undefined>();
+      while (root.parentId && byId.has(root.parentId) && !seen.has(root.id)) {
+        seen.add(root.id);
+        root = byId.get(root.parentId)!;
+      }
+      return root.id;
+    };
+    const rootId = rootOf(current);
+    const indexes = allImages
+      .map((image, index) => ({ image, index }))
+      .filter(({ image }) => image.id && rootOf(image) === rootId)
+      .map(({ index }) => index);
+    return indexes.length > 1 ? indexes : [];
+  }, [allImages, currentIndex]);
+
+  // Actions usually open a modal of their own, so leave the expanded view first
+  const runAction = useCallback((e: React.MouseEvent, action: ImageViewerAction, image: ImageItem) => {
+    e.stopPropagation();
+    closeExpanded();
+    action.onSelect(image);
+  }, [closeExpanded]);
+
   return (
     <>
-      <img 
-        src={src} 
-        alt={alt} 
-        className={className}
-        style={{ cursor: 'pointer' }}
-        onClick={handleClick}
-      />
+      {type === 'video' ? (
+        <video
+          src={src}
+          aria-label={alt}
+          className={className}
+          style={{ cursor: 'pointer' }}
+          onClick={handleClick}
+          autoPlay
+          loop
+          muted
+          playsInline
+        />
+      ) : (
+        <img 
+          src={src} 
+          alt={alt} 
+          className={className}
+          style={{ cursor: 'pointer' }}
+          onClick={handleClick}
+        />
+      )}
+
+      {type !== 'video' && actions.length > 0 && (
+        <div className="leo-image-actions">
+          {actions.map(action => (
+            <button
+              key={action.label}
+              className="leo-button leo-button-secondary leo-button-sm"
+              title={action.title}
+              onClick={(e) => runAction(e, action, { src, alt, type, id })}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
       
       {isExpanded && createPortal(
         <div 
@@ -329,6 +411,18 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
               </>
             )}
 
+            {allImages[currentIndex].type === 'video' ? (
+              // Videos keep their native controls, so clicks are not used for zooming
+              <video
+                key={allImages[currentIndex].src}
+                src={allImages[currentIndex].src}
+                aria-label={allImages[currentIndex].alt}
+                style={{ maxWidth: '90%', maxHeight: '90%', objectFit: 'contain' }}
+                controls
+                autoPlay
+                loop
+              />
+            ) : (
             <img 
               src={allImages[currentIndex].src} 
               alt={allImages[currentIndex].alt} 
@@ -353,6 +447,66 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
               }}
               onClick={handleImageClick}
             />
+            )}
+
+            {versionIndexes.length > 0 && (
+              <div
+                style={{
+                  position: 'absolute',
+                  top: '16px',
+                  left: '16px',
+                  display: 'flex',
+                  gap: '8px',
+                  zIndex: 1001
+                }}
+              >
+                {versionIndexes.map(index => (
+                  <button
+                    key={allImages[index].id}
+                    className={`leo-button leo-button-sm ${index === currentIndex ? 'leo-button-primary' : 'leo-button-secondary'}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      jumpToImage(index);
+                    }}
+                  >
+                    {allImages[index].label || 'Original'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {(footer || (allImages[currentIndex].type !== 'video' && actions.length > 0)) && (
+              <div
+                style={{
+                  position: 'absolute',
+                  bottom: '24px',
+                  left: hasMultipleImages ? 'calc(50% - 80px)' : '50%',
+                  transform: 'translateX(-50%)',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  gap: '12px',
+                  zIndex: 1001
+                }}
+                onClick={(e) => e.stopPropagation()}
+              >
+                {footer && footer(allImages[currentIndex])}
+                {allImages[currentIndex].type !== 'video' && actions.length > 0 && (
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    {actions.map(action => (
+                      <button
+                        key={action.label}
+                        className="leo-button leo-button-secondary leo-button-md"
+                        title={action.title}
+                        onClick={(e) => runAction(e, action, allImages[currentIndex])}
+                      >
+                        {action.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Thumbnail Sidebar */}
@@ -424,15 +578,29 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
                       }
                     }}
                   >
-                    <img
-                      src={image.src}
-                      alt={image.alt}
-                      style={{
-                        width: '100%',
-                        height: '100%',
-                        objectFit: 'cover'
-                      }}
-                    />
+                    {image.type === 'video' ? (
+                      <video
+                        src={image.src}
+                        aria-label={image.alt}
+                        style={{
+                          width: '100%',
+                          height: '100%',
+                          objectFit: 'cover'
+                        }}
+                        muted
+                        preload="metadata"
+                      />
+                    ) : (
+                      <img
+                        src={image.src}
+                        alt={image.alt}
+                        style={{
+                          width: '100%',
+                          height: '100%',
+                          objectFit: 'cover'
+                        }}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
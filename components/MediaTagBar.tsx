@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { MediaCuration, MediaCollection } from '../types';
+import { addTag, removeTag, toggleCollection } from '../curationStore';
+
+interface MediaTagBarProps {
+  curation: MediaCuration;
+  collections: MediaCollection[];
+  knownTags: string[]; // Offered as suggestions while typing
+  onChange: (curation: MediaCuration) => void;
+  onCreateCollection: (name: string) => MediaCollection;
+}
+
+const MediaTagBar: React.FC<MediaTagBarProps> = ({ curation, collections, knownTags, onChange, onCreateCollection }) => {
+  const [tagInput, setTagInput] = useState('');
+  const [collectionName, setCollectionName] = useState('');
+
+  const submitTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange(addTag(curation, tagInput));
+    setTagInput('');
+  };
+
+  // Create the collection and put this image in it straight away
+  const submitCollection = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = collectionName.trim();
+    if (!name) return;
+    const collection = onCreateCollection(name);
+    onChange(toggleCollection(curation, collection.id));
+    setCollectionName('');
+  };
+
+  return (
+    <div className="leo-media-tag-bar">
+      <div className="leo-cluster leo-cluster-2" style={{ alignItems: 'center' }}>
+        <button
+          onClick={() => onChange({ ...curation, favorite: !curation.favorite })}
+          className={`leo-button leo-button-sm ${curation.favorite ? 'leo-button-primary' : 'leo-button-secondary'}`}
+          aria-pressed={curation.favorite}
+        >
+          {curation.favorite ? '★ Favorite' : '☆ Favorite'}
+        </button>
+        {curation.tags.map(tag => (
+          <span key={tag} className="leo-badge leo-badge-secondary leo-tag-chip">
+            {tag}
+            <button onClick={() => onChange(removeTag(curation, tag))} aria-label={`Remove tag ${tag}`}>&times;</button>
+          </span>
+        ))}
+        <form onSubmit={submitTag}>
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Add tag..."
+            className="leo-input"
+            style={{ width: '140px' }}
+            list="leo-known-tags"
+            aria-label="Add tag"
+          />
+          <datalist id="leo-known-tags">
+            {knownTags.filter(tag => !curation.tags.includes(tag)).map(tag => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+        </form>
+      </div>
+
+      <div className="leo-cluster leo-cluster-2" style={{ alignItems: 'center' }}>
+        {collections.map(collection => {
+          const included = curation.collectionIds.includes(collection.id);
+          return (
+            <button
+              key={collection.id}
+              onClick={() => onChange(toggleCollection(curation, collection.id))}
+              className={`leo-button leo-button-sm ${included ? 'leo-button-primary' : 'leo-button-ghost'}`}
+              aria-pressed={included}
+            >
+              {included ? '✓ ' : '+ '}{collection.name}
+            </button>
+          );
+        })}
+        <form onSubmit={submitCollection}>
+          <input
+            type="text"
+            value={collectionName}
+            onChange={(e) => setCollectionName(e.target.value)}
+            placeholder="New collection..."
+            className="leo-input"
+            style={{ width: '160px' }}
+            aria-label="New collection"
+          />
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MediaTagBar;
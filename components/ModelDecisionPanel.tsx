@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { SelectionTrace, ScoringSignal } from '../autoModelLogic';
+
+interface ModelDecisionPanelProps {
+  trace: SelectionTrace;
+}
+
+const SIGNAL_LABELS: Record<ScoringSignal, string> = {
+  imageEdit: 'Edit',
+  referenceImages: 'Refs',
+  text: 'Text',
+  guidance: 'Guidance',
+  style: 'Style',
+  rank: 'Rank',
+};
+
+// Build a golden-file case (tests/golden/autoModelSelection.json) from a real selection
+const toGoldenCase = (trace: SelectionTrace) => {
+  const prompt = trace.originalPrompt || '';
+  const hasContext = Object.values(trace.context).some(value => value !== undefined);
+  return {
+    id: prompt.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'new-case',
+    prompt,
+    recommendation: trace.recommendationString,
+    referenceImageCount: trace.referenceImageCount,
+    ...(hasContext ? { context: trace.context } : {}),
+    expected: {
+      parsed: trace.recommendation,
+      textComplexity: trace.textComplexity.complexity,
+      model: trace.selectedModel,
+      guidanceType: trace.guidanceType ?? null,
+    },
+  };
+};
+
+const ModelDecisionPanel: React.FC<ModelDecisionPanelProps> = ({ trace }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const { recommendation, textComplexity } = trace;
+  const signals = Object.keys(SIGNAL_LABELS) as ScoringSignal[];
+
+  const recommendationTags = [
+    recommendation.needsText && 'Needs text',
+    recommendation.needsImageEdit && 'Image edit',
+    ...recommendation.preferredGuidanceTypes.map(type => `${type.charAt(0)}${type.slice(1).toLowerCase()} ref`),
+  ].filter(Boolean) as string[];
+
+  const goldenCaseJson = JSON.stringify(toGoldenCase(trace), null, 2);
+
+  // Without clipboard access (denied, insecure context) the JSON is shown to copy by hand
+  const copyGoldenCase = () => {
+    Promise.resolve()
+      .then(() => navigator.clipboard.writeText(goldenCaseJson))
+      .then(() => {
+        setCopyState('copied');
+        setTimeout(() => setCopyState(current => current === 'copied' ? 'idle' : current), 1500);
+      })
+      .catch(() => setCopyState('failed'));
+  };
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="leo-button leo-button-ghost leo-button-sm"
+        style={{ padding: '0 4px' }}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? '▾' : '▸'} Why this model?
+      </button>
+
+      {isOpen && (
+        <div className="leo-surface leo-stack leo-stack-3" style={{ padding: '12px 16px', marginTop: '8px' }}>
+          <p className="leo-text-sm leo-text-primary">
+            <span className="leo-font-medium">{trace.selectedModel}</span> scored highest of {trace.scores.length} candidates.
+          </p>
+
+          <div className="leo-stack leo-stack-2">
+            <p className="leo-text-xs leo-text-secondary">
+              Recommendation: {recommendationTags.length > 0 ? recommendationTags.join(' • ') : 'none'}
+              {trace.recommendationString && (
+                <span className="leo-text-tertiary"> ({trace.recommendationString.replace(/\s+/g, ' ').trim()})</span>
+              )}
+            </p>
+            <p className="leo-text-xs leo-text-secondary">
+              Text complexity: {textComplexity.complexity}
+              {textComplexity.matchedText && (
+                <span className="leo-text-tertiary"> (matched "{textComplexity.matchedText}" with /{textComplexity.matchedPattern}/)</span>
+              )}
+            </p>
+            <p className="leo-text-xs leo-text-secondary">
+              Reference images: {trace.referenceImageCount} • Guidance: {trace.guidanceType || 'none'}
+            </p>
+          </div>
+
+          <table className="leo-text-xs leo-text-secondary" style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr className="leo-text-tertiary">
+                <th style={{ textAlign: 'left', fontWeight: 500, padding: '2px 4px' }}>Model</th>
+                {signals.map(signal => (
+                  <th key={signal} style={{ textAlign: 'right', fontWeight: 500, padding: '2px 4px' }}>{SIGNAL_LABELS[signal]}</th>
+                ))}
+                <th style={{ textAlign: 'right', fontWeight: 500, padding: '2px 4px' }}>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trace.scores.map(score => (
+                <tr key={score.name} className={score.name === trace.selectedModel ? 'leo-text-primary' : undefined}>
+                  <td style={{ padding: '2px 4px' }}>{score.name}</td>
+                  {signals.map(signal => (
+                    <td key={signal} style={{ textAlign: 'right', padding: '2px 4px' }}>{score.signals[signal]}</td>
+                  ))}
+                  <td style={{ textAlign: 'right', padding: '2px 4px' }} className="leo-font-medium">{score.total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {trace.ruledOut.length > 0 && (
+            <ul className="leo-text-xs leo-text-secondary" style={{ margin: 0, paddingLeft: '16px' }}>
+              {trace.ruledOut.map(entry => (
+                <li key={entry.name}>
+                  <span className="leo-font-medium">{entry.name}</span>: {entry.reasons.join('; ')}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={copyGoldenCase}
+            className="leo-button leo-button-ghost leo-button-sm"
+            style={{ alignSelf: 'flex-start', padding: '0 4px' }}
+            title="Copy this selection as a case for the auto selection regression suite"
+          >
+            {copyState === 'copied' ? 'Copied!' : 'Copy as test case'}
+          </button>
+          {copyState === 'failed' && (
+            <div className="leo-stack leo-stack-2">
+              <p className="leo-text-xs leo-text-negative" role="alert">Could not copy to the clipboard; copy the case below instead.</p>
+              <textarea
+                readOnly
+                value={goldenCaseJson}
+                onFocus={(e) => e.target.select()}
+                className="leo-textarea leo-text-xs"
+                rows={8}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelDecisionPanel;
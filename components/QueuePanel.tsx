@@ -0,0 +1,168 @@
+import React, { useRef, useState } from 'react';
+import { GenerationQueue, QueueState, QueueItemStatus, MAX_QUEUE_CONCURRENCY, parsePromptList } from '../generationQueue';
+
+interface QueuePanelProps {
+  queue: GenerationQueue;
+  state: QueueState;
+  onConcurrencyChange: (concurrency: number) => void;
+}
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  queued: 'Queued',
+  held: 'On hold',
+  running: 'Running',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ queue, state, onConcurrencyChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [promptList, setPromptList] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const pending = state.items.filter(item => item.status === 'queued' || item.status === 'held' || item.status === 'running');
+  const finished = state.items.length - pending.length;
+  const prompts = parsePromptList(promptList);
+
+  const addPrompts = () => {
+    queue.add(prompts);
+    setPromptList('');
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setPromptList(prev => (prev.trim() ? `${prev.trimEnd()}\n${text}` : text));
+  };
+
+  return (
+    <div className="leo-stack leo-stack-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="leo-button leo-button-secondary leo-button-md"
+        style={{ width: '100%' }}
+        aria-expanded={isOpen}
+      >
+        Batch Queue{pending.length > 0 ? ` (${pending.length} pending)` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="leo-stack leo-stack-3">
+          <textarea
+            value={promptList}
+            onChange={(e) => setPromptList(e.target.value)}
+            placeholder="One prompt per line..."
+            className="leo-input"
+            rows={5}
+            aria-label="Prompts to queue"
+          />
+          <div className="leo-cluster leo-cluster-2" style={{ alignItems: 'center' }}>
+            <button
+              onClick={addPrompts}
+              disabled={prompts.length === 0}
+              className="leo-button leo-button-primary leo-button-sm"
+            >
+              Add {prompts.length > 0 ? prompts.length : ''} to queue
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="leo-button leo-button-ghost leo-button-sm"
+            >
+              Load .txt
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,text/plain"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                loadFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <p className="leo-text-xs leo-text-tertiary">
+            Each prompt uses the generation settings above at the time it starts.
+          </p>
+
+          <div className="leo-cluster leo-cluster-2" style={{ alignItems: 'center' }}>
+            <label htmlFor="queue-concurrency" className="leo-text-sm leo-text-secondary">Run at once</label>
+            <select
+              id="queue-concurrency"
+              value={state.concurrency}
+              onChange={(e) => onConcurrencyChange(parseInt(e.target.value))}
+              className="leo-select"
+              style={{ width: 'auto' }}
+            >
+              {Array.from({ length: MAX_QUEUE_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+            {state.paused ? (
+              <button onClick={() => queue.resume()} className="leo-button leo-button-primary leo-button-sm">Resume</button>
+            ) : (
+              <button onClick={() => queue.pause()} className="leo-button leo-button-secondary leo-button-sm">Pause</button>
+            )}
+          </div>
+
+          {state.rateLimitedUntil && (
+            <p className="leo-text-xs leo-text-highlight">
+              Rate limited by Leonardo.ai; resuming at {new Date(state.rateLimitedUntil).toLocaleTimeString()}.{' '}
+              <button onClick={() => queue.resume()} className="leo-button leo-button-ghost leo-button-sm">Retry now</button>
+            </p>
+          )}
+
+          {state.items.length > 0 && (
+            <div className="leo-queue-list">
+              {state.items.map((item, index) => (
+                <div key={item.id} className="leo-queue-item">
+                  <div className="leo-stack" style={{ minWidth: 0, flex: 1, gap: '2px' }}>
+                    <span className="leo-text-sm leo-text-primary leo-queue-item-prompt" title={item.prompt}>{item.prompt}</span>
+                    <span className={`leo-text-xs ${item.status === 'failed' ? 'leo-text-negative' : 'leo-text-tertiary'}`} title={item.error}>
+                      {STATUS_LABELS[item.status]}
+                      {item.attempts > 1 && ` • attempt ${item.attempts}`}
+                      {item.error && ` • ${item.error}`}
+                    </span>
+                  </div>
+                  <div className="leo-cluster" style={{ flexWrap: 'nowrap', gap: '4px' }}>
+                    {(item.status === 'queued' || item.status === 'held') && (
+                      <>
+                        <button onClick={() => queue.move(item.id, index - 1)} disabled={index === 0} className="leo-button leo-button-ghost leo-button-sm" title="Move up">↑</button>
+                        <button onClick={() => queue.move(item.id, index + 1)} disabled={index === state.items.length - 1} className="leo-button leo-button-ghost leo-button-sm" title="Move down">↓</button>
+                        {item.status === 'queued' ? (
+                          <button onClick={() => queue.hold(item.id)} className="leo-button leo-button-ghost leo-button-sm" title="Hold">Hold</button>
+                        ) : (
+                          <button onClick={() => queue.release(item.id)} className="leo-button leo-button-ghost leo-button-sm" title="Release">Release</button>
+                        )}
+                      </>
+                    )}
+                    {(item.status === 'failed' || item.status === 'cancelled') && (
+                      <button onClick={() => queue.retry(item.id)} className="leo-button leo-button-ghost leo-button-sm" title="Queue again">Retry</button>
+                    )}
+                    {(item.status === 'queued' || item.status === 'held' || item.status === 'running') && (
+                      <button onClick={() => queue.cancel(item.id)} className="leo-button leo-button-ghost leo-button-sm" title="Cancel">&times;</button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {state.items.length > 0 && (
+            <div className="leo-cluster leo-cluster-2">
+              {finished > 0 && (
+                <button onClick={() => queue.clearFinished()} className="leo-button leo-button-ghost leo-button-sm">Clear finished</button>
+              )}
+              {pending.length > 0 && (
+                <button onClick={() => queue.cancelAll()} className="leo-button leo-button-ghost leo-button-sm leo-text-negative">Cancel all</button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueuePanel;
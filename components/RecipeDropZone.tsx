@@ -0,0 +1,64 @@
+import React, { useRef, useState } from 'react';
+import { readRecipe, GenerationRecipe } from '../imageMetadata';
+
+interface RecipeDropZoneProps {
+  onImport: (recipe: GenerationRecipe) => void;
+}
+
+// Drop (or pick) a PNG/JPEG downloaded from this app to load its generation recipe
+const RecipeDropZone: React.FC<RecipeDropZoneProps> = ({ onImport }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    const recipe = readRecipe(new Uint8Array(await file.arrayBuffer()));
+    if (recipe) {
+      onImport(recipe);
+      setMessage(`Loaded recipe from ${file.name}`);
+    } else {
+      setMessage(`No generation recipe found in ${file.name}`);
+    }
+  };
+
+  return (
+    <div className="leo-stack leo-stack-2">
+      <div
+        className={`leo-recipe-drop-zone ${isDragging ? 'leo-recipe-drop-zone-active' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          importFile(e.dataTransfer.files[0]);
+        }}
+        onClick={() => fileInputRef.current?.click()}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') fileInputRef.current?.click();
+        }}
+      >
+        <span className="leo-text-sm leo-text-secondary">Import recipe from image</span>
+        <span className="leo-text-xs leo-text-tertiary">Drop a downloaded PNG or JPEG here</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/png,image/jpeg"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            importFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {message && <p className="leo-text-xs leo-text-tertiary">{message}</p>}
+    </div>
+  );
+};
+
+export default RecipeDropZone;
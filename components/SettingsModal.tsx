@@ -1,32 +1,65 @@
 import React, { useState, useEffect } from 'react';
+import { DEFAULT_WEBHOOK_RECEIVER_URL } from '../webhookListener';
+import { MOCK_API_BASE_URL } from '../leonardoClient';
+import { PromptEnhancerSettings, PromptEnhancerId, PROMPT_ENHANCER_IDS, PROMPT_ENHANCER_LABELS, DEFAULT_PROMPT_ENHANCER_SETTINGS } from '../promptEnhancer';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (apiKey: string, geminiApiKey: string, isDevMode: boolean) => void;
+  onSave: (apiKey: string, geminiApiKey: string, isDevMode: boolean, webhookReceiverUrl: string, mockApiBaseUrl: string, promptEnhancerSettings: PromptEnhancerSettings) => void;
   currentApiKey: string | null;
   currentGeminiApiKey: string | null;
   isDevMode: boolean;
+  currentWebhookReceiverUrl: string; // Empty when jobs complete by polling
+  currentMockApiBaseUrl: string; // Empty when using the real Leonardo API
+  currentPromptEnhancerSettings: PromptEnhancerSettings;
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave, currentApiKey, currentGeminiApiKey, isDevMode }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave, currentApiKey, currentGeminiApiKey, isDevMode, currentWebhookReceiverUrl, currentMockApiBaseUrl, currentPromptEnhancerSettings }) => {
   const [apiKeyInput, setApiKeyInput] = useState('');
   const [geminiApiKeyInput, setGeminiApiKeyInput] = useState('');
   const [devModeEnabled, setDevModeEnabled] = useState(false);
+  const [webhookEnabled, setWebhookEnabled] = useState(false);
+  const [webhookUrlInput, setWebhookUrlInput] = useState('');
+  const [mockApiEnabled, setMockApiEnabled] = useState(false);
+  const [mockApiUrlInput, setMockApiUrlInput] = useState('');
+  const [enhancerSettings, setEnhancerSettings] = useState<PromptEnhancerSettings>(DEFAULT_PROMPT_ENHANCER_SETTINGS);
 
   useEffect(() => {
     if (isOpen) {
         setApiKeyInput(currentApiKey || '');
         setGeminiApiKeyInput(currentGeminiApiKey || '');
         setDevModeEnabled(isDevMode);
+        setWebhookEnabled(!!currentWebhookReceiverUrl);
+        setWebhookUrlInput(currentWebhookReceiverUrl || DEFAULT_WEBHOOK_RECEIVER_URL);
+        setMockApiEnabled(!!currentMockApiBaseUrl);
+        setMockApiUrlInput(currentMockApiBaseUrl || MOCK_API_BASE_URL);
+        setEnhancerSettings(currentPromptEnhancerSettings);
     }
-  }, [currentApiKey, currentGeminiApiKey, isDevMode, isOpen]);
+  }, [currentApiKey, currentGeminiApiKey, isDevMode, currentWebhookReceiverUrl, currentMockApiBaseUrl, currentPromptEnhancerSettings, isOpen]);
 
   if (!isOpen) return null;
 
+  const updateEnhancerSettings = (changes: Partial<PromptEnhancerSettings>) => {
+    setEnhancerSettings(prev => ({ ...prev, ...changes }));
+  };
+
   const handleSave = () => {
-    if (apiKeyInput.trim()) {
-      onSave(apiKeyInput.trim(), geminiApiKeyInput.trim(), devModeEnabled);
+    // The mock accepts any key, so one is only required for the real API
+    if (apiKeyInput.trim() || mockApiEnabled) {
+      onSave(
+        apiKeyInput.trim(),
+        geminiApiKeyInput.trim(),
+        devModeEnabled,
+        webhookEnabled ? webhookUrlInput.trim() : '',
+        mockApiEnabled ? mockApiUrlInput.trim() : '',
+        {
+          ...enhancerSettings,
+          openAiBaseUrl: enhancerSettings.openAiBaseUrl.trim(),
+          openAiApiKey: enhancerSettings.openAiApiKey.trim(),
+          openAiModel: enhancerSettings.openAiModel.trim(),
+        }
+      );
     }
   };
 
@@ -100,6 +133,56 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave,
               </a>
             </p>
           </div>
+
+          <div className="leo-stack leo-stack-3">
+            <label htmlFor="prompt-enhancer" className="leo-text-sm leo-font-medium leo-text-secondary">
+              Prompt Enhancement Provider
+            </label>
+            <select
+              id="prompt-enhancer"
+              value={enhancerSettings.provider}
+              onChange={(e) => updateEnhancerSettings({ provider: e.target.value as PromptEnhancerId })}
+              className="leo-select"
+            >
+              {PROMPT_ENHANCER_IDS.map(id => (
+                <option key={id} value={id}>{PROMPT_ENHANCER_LABELS[id]}</option>
+              ))}
+            </select>
+            <p className="leo-text-xs leo-text-tertiary">
+              {enhancerSettings.provider === 'gemini' && 'Uses the Gemini API key above.'}
+              {enhancerSettings.provider === 'leonardo' && 'Uses Leonardo\'s prompt improvement endpoint (4 credits per prompt).'}
+              {enhancerSettings.provider === 'openai-compatible' && 'Any /chat/completions endpoint, including local servers such as Ollama or LM Studio.'}
+              {enhancerSettings.provider === 'rule-based' && 'Works offline with no key. Auto falls back to it when the chosen provider is not configured.'}
+            </p>
+            {enhancerSettings.provider === 'openai-compatible' && (
+              <>
+                <input
+                  type="text"
+                  id="openai-base-url"
+                  value={enhancerSettings.openAiBaseUrl}
+                  onChange={(e) => updateEnhancerSettings({ openAiBaseUrl: e.target.value })}
+                  placeholder={DEFAULT_PROMPT_ENHANCER_SETTINGS.openAiBaseUrl}
+                  className="leo-input"
+                />
+                <input
+                  type="text"
+                  id="openai-model"
+                  value={enhancerSettings.openAiModel}
+                  onChange={(e) => updateEnhancerSettings({ openAiModel: e.target.value })}
+                  placeholder="Model name"
+                  className="leo-input"
+                />
+                <input
+                  type="password"
+                  id="openai-api-key"
+                  value={enhancerSettings.openAiApiKey}
+                  onChange={(e) => updateEnhancerSettings({ openAiApiKey: e.target.value })}
+                  placeholder="API key (optional for local servers)"
+                  className="leo-input"
+                />
+              </>
+            )}
+          </div>
         </div>
 
         <div style={{ marginTop: '24px', paddingTop: '24px', borderTop: '1px solid var(--color-border-primary)' }}>
@@ -114,6 +197,48 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave,
                 <span className="leo-toggle-slider"></span>
               </label>
             </div>
+            <div className="leo-cluster leo-cluster-4" style={{ justifyContent: 'space-between', alignItems: 'flex-start', marginTop: '16px' }}>
+              <div>
+                <label className="leo-text-sm leo-font-medium leo-text-secondary">Webhook Completion</label>
+                <p className="leo-text-xs leo-text-tertiary">Wait for webhook callbacks forwarded by the local receiver (npm run webhook-receiver) instead of polling. Falls back to polling if no event arrives.</p>
+              </div>
+              <label className="leo-toggle">
+                <input type="checkbox" checked={webhookEnabled} onChange={(e) => setWebhookEnabled(e.target.checked)} />
+                <span className="leo-toggle-slider"></span>
+              </label>
+            </div>
+            {webhookEnabled && (
+              <input
+                type="text"
+                id="webhook-receiver-url"
+                value={webhookUrlInput}
+                onChange={(e) => setWebhookUrlInput(e.target.value)}
+                placeholder={DEFAULT_WEBHOOK_RECEIVER_URL}
+                className="leo-input"
+                style={{ marginTop: '12px' }}
+              />
+            )}
+            <div className="leo-cluster leo-cluster-4" style={{ justifyContent: 'space-between', alignItems: 'flex-start', marginTop: '16px' }}>
+              <div>
+                <label className="leo-text-sm leo-font-medium leo-text-secondary">Mock Leonardo API</label>
+                <p className="leo-text-xs leo-text-tertiary">Send all Leonardo requests to the local mock server (npm run mock-api) to work offline.</p>
+              </div>
+              <label className="leo-toggle">
+                <input type="checkbox" checked={mockApiEnabled} onChange={(e) => setMockApiEnabled(e.target.checked)} />
+                <span className="leo-toggle-slider"></span>
+              </label>
+            </div>
+            {mockApiEnabled && (
+              <input
+                type="text"
+                id="mock-api-base-url"
+                value={mockApiUrlInput}
+                onChange={(e) => setMockApiUrlInput(e.target.value)}
+                placeholder={MOCK_API_BASE_URL}
+                className="leo-input"
+                style={{ marginTop: '12px' }}
+              />
+            )}
         </div>
 
         <div className="leo-modal-footer">
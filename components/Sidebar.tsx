@@ -462,7 +462,7 @@ const Sidebar: React.FC<SidebarProps> = ({ selectedNodes, onDeleteNodes, selecte
     const renderTextToVideoSettings = () => {
         if (node.typeKey !== 'text-to-video') return null;
         const videoModelConfig = getModelConfig(settings.model);
-        const supportedResolutions = videoModelConfig?.supports?.resolutions || VIDEO_RESOLUTIONS;
+        const supportedResolutions = videoModelConfig?.nodeType === 'text-to-video' ? videoModelConfig.supports.resolutions : VIDEO_RESOLUTIONS;
         
         const handleModelChange = (newModel: string) => {
             const newModelDefaults = getModelDefaults(newModel);
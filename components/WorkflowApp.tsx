@@ -0,0 +1,267 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MediaItem } from '../types';
+import { NODE_TYPES, ImportIcon } from '../constants';
+import { LeonardoClient } from '../leonardoClient';
+import { runWorkflow, validateWorkflow, WorkflowEvent, WorkflowRunStatus } from '../workflowEngine';
+import { parseWorkflowFile, LoadedWorkflow } from '../workflowFile';
+import { AppInput, AppInputValue, getAppInputs, getDefaultAppValue, isAppValueFilled, applyAppValues, getTerminalNodeIds, loadPublishedApp, publishWorkflowApp } from '../workflowApp';
+
+interface WorkflowAppProps {
+  client: LeonardoClient | null; // Null until an API key is set
+  onUploadFile: (file: File) => Promise<{ mediaId: string; url: string; } | null>;
+  onOpenSettings: () => void;
+  onEditWorkflow: () => void;
+  onExit: () => void;
+}
+
+interface AppRunState {
+  status: 'running' | WorkflowRunStatus;
+  finished: number;
+  total: number;
+}
+
+const STATUS_LABELS: Record<WorkflowRunStatus, string> = {
+  completed: 'Done',
+  failed: 'Some steps failed',
+  cancelled: 'Cancelled',
+};
+
+const defaultValues = (app: LoadedWorkflow | null): Record<string, AppInputValue> => {
+  if (!app) return {};
+  return Object.fromEntries(getAppInputs(app.workflow).map(input => {
+    const node = app.workflow.nodes.find(n => n.id === input.nodeId)!;
+    return [input.nodeId, getDefaultAppValue(node)];
+  }));
+};
+
+const WorkflowApp: React.FC<WorkflowAppProps> = ({ client, onUploadFile, onOpenSettings, onEditWorkflow, onExit }) => {
+  const [app, setApp] = useState<LoadedWorkflow | null>(loadPublishedApp);
+  const [values, setValues] = useState<Record<string, AppInputValue>>(() => defaultValues(app));
+  const [uploadingNodeId, setUploadingNodeId] = useState<string | null>(null);
+  const [run, setRun] = useState<AppRunState | null>(null);
+  const [outputs, setOutputs] = useState<MediaItem[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+  const openInputRef = useRef<HTMLInputElement>(null);
+
+  const inputs = useMemo(() => app ? getAppInputs(app.workflow) : [], [app]);
+  const isRunning = run?.status === 'running';
+
+  // Leaving the app cancels a run in progress
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const setValue = (nodeId: string, value: AppInputValue) => {
+    setValues(current => ({ ...current, [nodeId]: value }));
+  };
+
+  const chooseFile = async (input: AppInput, file: File | undefined) => {
+    if (!file) return;
+    if (input.type === 'video') {
+      setValue(input.nodeId, { src: URL.createObjectURL(file), fileName: file.name });
+      return;
+    }
+    setUploadingNodeId(input.nodeId);
+    try {
+      const result = await onUploadFile(file);
+      if (result) {
+        setValue(input.nodeId, { src: result.url, fileName: file.name, mediaId: result.mediaId });
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      setUploadingNodeId(null);
+    }
+  };
+
+  const openAppFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const loaded = parseWorkflowFile(await file.text());
+      const name = loaded.name || file.name.replace(/(\.workflow)?\.json$/i, '');
+      await publishWorkflowApp(loaded.workflow, name);
+      controllerRef.current?.abort();
+      setApp({ ...loaded, name });
+      setValues(defaultValues(loaded));
+      setRun(null);
+      setOutputs([]);
+      setErrors([]);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const runApp = async () => {
+    if (!app) return;
+    if (!client) {
+      alert('Add your Leonardo.ai API key in Settings to run this app.');
+      return;
+    }
+    const missing = inputs.filter(input => !isAppValueFilled(input, values[input.nodeId]));
+    if (missing.length > 0) {
+      setErrors(missing.map(input => `${input.label} is required.`));
+      return;
+    }
+    const workflow = applyAppValues(app.workflow, values);
+    const problems = validateWorkflow(workflow);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    // Only the final results are shown, as each one arrives
+    const terminalIds = getTerminalNodeIds(workflow);
+    const handleEvent = (event: WorkflowEvent) => {
+      if (event.type === 'run-started') {
+        setRun({ status: 'running', finished: 0, total: event.order.length });
+      } else if (event.type === 'run-progress') {
+        setRun(current => current && { ...current, finished: event.finished, total: event.total });
+      } else if (event.type === 'node-output' && terminalIds.includes(event.nodeId)) {
+        setOutputs(current => [...current, ...event.outputs]);
+      }
+    };
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setOutputs([]);
+    setErrors([]);
+    try {
+      const result = await runWorkflow(workflow, client, { signal: controller.signal, onEvent: handleEvent });
+      setRun(current => current && { ...current, status: result.status });
+      setErrors(result.nodes
+        .filter(node => node.status === 'failed')
+        .map(node => `${NODE_TYPES[node.typeKey]?.name || node.typeKey}: ${result.errors[node.id]}`));
+    } catch (error) {
+      setRun(null);
+      setErrors([error instanceof Error ? error.message : String(error)]);
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  };
+
+  const renderInput = (input: AppInput) => {
+    const value = values[input.nodeId];
+    const fieldId = `app-input-${input.nodeId}`;
+    return (
+      <div key={input.nodeId} className="leo-stack leo-stack-2">
+        <label htmlFor={fieldId} className="leo-text-sm leo-font-medium leo-text-primary">{input.label}</label>
+        {input.instructions && <p className="leo-text-xs leo-text-tertiary">{input.instructions}</p>}
+        {input.type === 'text' ? (
+          <textarea
+            id={fieldId}
+            value={value?.text || ''}
+            onChange={(e) => setValue(input.nodeId, { text: e.target.value })}
+            className="leo-textarea"
+            rows={3}
+            disabled={isRunning}
+          />
+        ) : (
+          <div className="leo-cluster leo-cluster-3" style={{ alignItems: 'center' }}>
+            {value?.src && (input.type === 'image'
+              ? <img src={value.src} alt={value.fileName || input.label} className="leo-workflow-app-preview" />
+              : <video src={value.src} className="leo-workflow-app-preview" muted />)}
+            <label className="leo-button leo-button-secondary leo-button-sm">
+              {uploadingNodeId === input.nodeId ? 'Uploading...' : value?.src ? `Replace ${input.type}` : `Choose ${input.type}`}
+              <input
+                id={fieldId}
+                type="file"
+                accept={input.type === 'image' ? 'image/png,image/jpeg,image/webp' : 'video/*'}
+                style={{ display: 'none' }}
+                disabled={isRunning || uploadingNodeId !== null}
+                onChange={(e) => {
+                  chooseFile(input, e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {value?.fileName && <span className="leo-text-xs leo-text-tertiary leo-truncate">{value.fileName}</span>}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="leo-workflow">
+      <header className="leo-workflow-header">
+        <div className="leo-cluster leo-cluster-3" style={{ alignItems: 'center' }}>
+          <button onClick={onExit} className="leo-button leo-button-ghost leo-button-sm" title="Back to the single-prompt generator">
+            &larr; Generator
+          </button>
+          <h1 className="leo-text-lg leo-font-medium leo-text-primary">{app?.name || 'Workflow App'}</h1>
+        </div>
+        <div className="leo-cluster leo-cluster-2" style={{ alignItems: 'center' }}>
+          <button onClick={() => openInputRef.current?.click()} className="leo-button leo-button-ghost leo-button-sm" title="Open a workflow file as an app">
+            <ImportIcon /> Open
+          </button>
+          <input
+            ref={openInputRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              openAppFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={onEditWorkflow} className="leo-button leo-button-ghost leo-button-sm">
+            Workflow Builder
+          </button>
+          <button onClick={onOpenSettings} className="leo-button leo-button-ghost leo-button-sm">
+            Settings
+          </button>
+        </div>
+      </header>
+
+      <div className="leo-workflow-app-body">
+        <div className="leo-container leo-stack leo-stack-6" style={{ maxWidth: '720px' }}>
+          {!app ? (
+            <p className="leo-text-sm leo-text-tertiary">
+              No app has been published yet. In the Workflow Builder, turn on "Expose as an input" for the inputs users should fill in and click "Publish App", or open a workflow file here.
+            </p>
+          ) : (
+            <>
+              <div className="leo-stack leo-stack-4">
+                {inputs.length > 0 ? inputs.map(renderInput) : (
+                  <p className="leo-text-sm leo-text-tertiary">This app has no inputs; running it repeats the workflow as designed.</p>
+                )}
+              </div>
+
+              <div className="leo-cluster leo-cluster-3" style={{ alignItems: 'center' }}>
+                {isRunning ? (
+                  <button onClick={() => controllerRef.current?.abort()} className="leo-button leo-button-secondary leo-button-md">Cancel</button>
+                ) : (
+                  <button onClick={runApp} disabled={uploadingNodeId !== null} className="leo-button leo-button-primary leo-button-md">Run</button>
+                )}
+                {run && (
+                  <span className="leo-text-sm leo-text-tertiary" role="status">
+                    {run.status === 'running' ? `Working... step ${Math.min(run.finished + 1, run.total)} of ${run.total}` : STATUS_LABELS[run.status]}
+                  </span>
+                )}
+              </div>
+
+              {errors.length > 0 && (
+                <div className="leo-stack leo-stack-2" role="alert">
+                  {errors.map((error, index) => <p key={index} className="leo-text-xs leo-text-negative">{error}</p>)}
+                </div>
+              )}
+
+              {outputs.length > 0 && (
+                <div className="leo-generation-images-grid">
+                  {outputs.map(item => (
+                    <a key={item.mediaId} href={item.url} target="_blank" rel="noopener noreferrer" className="leo-generation-image-card" title="Open full size">
+                      {item.type === 'video'
+                        ? <video src={item.url} className="leo-generation-image" controls loop muted />
+                        : <img src={item.url} alt="Workflow result" className="leo-generation-image" />}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkflowApp;
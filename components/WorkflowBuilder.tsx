@@ -0,0 +1,823 @@
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
+import { NodeData, ConnectionPoint, ConnectionStartPoint, CanvasTransform, MediaItem, Position, Workflow } from '../types';
+import { NODE_TYPES, TYPE_COLORS, GRID_SIZE, MIN_ZOOM, MAX_ZOOM, VIRTUAL_CANVAS_SIZE, NODE_WIDTH, MapIcon, PlusIcon, ExportIcon, ImportIcon } from '../constants';
+import { createNode, createConnection, addConnection, exposeNextSlot, findCompatibleConnector, getConnectorDefinition, pruneConnections, removeNodes, snapPosition } from '../workflowGraph';
+import { runWorkflow, validateWorkflow, WorkflowEvent, WorkflowRunStatus } from '../workflowEngine';
+import { LeonardoClient } from '../leonardoClient';
+import { serializeWorkflow, parseWorkflowFile, workflowFileName } from '../workflowFile';
+import { downloadBlob } from '../generationExport';
+import { getAppInputs, publishWorkflowApp } from '../workflowApp';
+import { WorkflowHistory, HistoryDirection, createCommand, applyCommand } from '../workflowHistory';
+import NodeComponent from './NodeComponent';
+import NodeMenu from './NodeMenu';
+import Sidebar from './Sidebar';
+import MapPanel from './MapPanel';
+import GenerationsPanel from './GenerationsPanel';
+
+interface WorkflowBuilderProps {
+  isMobile: boolean;
+  client: LeonardoClient | null; // Null until an API key is set
+  onUploadFile: (file: File) => Promise<{ mediaId: string; url: string; } | null>;
+  onOpenSettings: () => void;
+  onOpenApp: () => void;
+  onExit: () => void;
+}
+
+interface NodeMenuState {
+  screen: Position; // Relative to the canvas element
+  canvas: Position; // Where the new node goes
+  pendingConnection?: ConnectionStartPoint; // Wire dropped on empty canvas
+}
+
+interface RunState {
+  status: 'running' | WorkflowRunStatus;
+  finished: number;
+  total: number;
+  errors: Record<string, string>;
+}
+
+type DragState =
+  | { kind: 'pan'; start: Position; origin: CanvasTransform }
+  | { kind: 'nodes'; id: number; start: Position; origins: Record<string, Position> } // id groups one drag's moves into one undo step
+  | { kind: 'connection' };
+
+const DRAFT_STORAGE_KEY = 'workflow-draft';
+const MEDIA_DRAG_TYPE = 'application/x-blueprint-media-item';
+
+const sanitizeForId = (name: string) => name.replace(/\s+/g, '-');
+
+const clampScale = (scale: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale));
+
+// Start in the middle of the virtual canvas so graphs can grow in every direction
+const initialTransform = (): CanvasTransform => ({
+  x: -VIRTUAL_CANVAS_SIZE / 2 + 200,
+  y: -VIRTUAL_CANVAS_SIZE / 2 + 150,
+  scale: 1,
+});
+
+const loadDraft = (): { workflow: Workflow; transform: CanvasTransform } => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DRAFT_STORAGE_KEY) || 'null');
+    if (stored && Array.isArray(stored.nodes) && Array.isArray(stored.connections)) {
+      // A run does not survive a reload
+      const nodes = (stored.nodes as NodeData[]).map(node => node.status === 'running' ? { ...node, status: 'idle' as const } : node);
+      return { workflow: { nodes, connections: stored.connections }, transform: stored.transform || initialTransform() };
+    }
+  } catch {
+    // Corrupt draft; start empty
+  }
+  return { workflow: { nodes: [], connections: [] }, transform: initialTransform() };
+};
+
+// Horizontal bezier from an output to an input
+const wirePath = (from: Position, to: Position): string => {
+  const dx = Math.max(60, Math.abs(to.x - from.x) / 2);
+  return `M ${from.x} ${from.y} C ${from.x + dx} ${from.y}, ${to.x - dx} ${to.y}, ${to.x} ${to.y}`;
+};
+
+const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ isMobile, client, onUploadFile, onOpenSettings, onOpenApp, onExit }) => {
+  const [draft] = useState(loadDraft);
+  const [workflow, setWorkflow] = useState<Workflow>(draft.workflow);
+  const [transform, setTransform] = useState<CanvasTransform>(draft.transform);
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const [selectedConnectionIndices, setSelectedConnectionIndices] = useState<number[]>([]);
+  const [draggingConnection, setDraggingConnection] = useState<ConnectionStartPoint | null>(null);
+  const [pointer, setPointer] = useState<Position>({ x: 0, y: 0 }); // Canvas coordinates of the wire being dragged
+  const [nodeMenu, setNodeMenu] = useState<NodeMenuState | null>(null);
+  const [isMapVisible, setIsMapVisible] = useState(false);
+  const [isGenerationsOpen, setIsGenerationsOpen] = useState(false);
+  const [run, setRun] = useState<RunState | null>(null);
+  const [, setLayoutVersion] = useState(0);
+  const [, setHistoryVersion] = useState(0); // Re-renders the undo and redo buttons
+
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const transformRef = useRef(transform);
+  transformRef.current = transform;
+  const draggingConnectionRef = useRef(draggingConnection);
+  draggingConnectionRef.current = draggingConnection;
+  const workflowRef = useRef(workflow);
+  workflowRef.current = workflow;
+  const selectedNodeIdsRef = useRef(selectedNodeIds);
+  selectedNodeIdsRef.current = selectedNodeIds;
+  const connectorOffsets = useRef(new Map<string, Position>()); // Connector centers relative to their node
+  const runControllerRef = useRef<AbortController | null>(null);
+  const historyRef = useRef(new WorkflowHistory());
+  const dragCounterRef = useRef(0);
+
+  const { nodes, connections } = workflow;
+  const selectedNodes = useMemo(() => nodes.filter(node => selectedNodeIds.includes(node.id)), [nodes, selectedNodeIds]);
+  const generations = useMemo(() => nodes.flatMap(node => node.outputData || []), [nodes]);
+
+  useEffect(() => {
+    // Run results are not part of the draft; outputs can be large and go stale
+    const draftNodes = workflow.nodes.map(({ status, outputData, debugData, debugInput, ...node }) => node);
+    try {
+      localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify({ nodes: draftNodes, connections: workflow.connections, transform }));
+    } catch (error) {
+      // Usually a QuotaExceededError; keep editing and try again on the next change
+      console.warn('Could not save the workflow draft:', error);
+    }
+  }, [workflow, transform]);
+
+  // Every user edit goes through here so it can be undone; run updates do not
+  const edit = useCallback((label: string, update: (current: Workflow) => Workflow, coalesceKey?: string) => {
+    const before = workflowRef.current;
+    const command = createCommand(label, before, update(before), coalesceKey);
+    if (!command) return;
+    // Commands only touch edited fields, so applying one keeps run updates still in flight
+    workflowRef.current = applyCommand(before, command, 'redo');
+    setWorkflow(current => applyCommand(current, command, 'redo'));
+    historyRef.current.record(command);
+    setHistoryVersion(v => v + 1);
+  }, []);
+
+  const stepHistory = useCallback((direction: HistoryDirection) => {
+    const command = direction === 'undo' ? historyRef.current.undo() : historyRef.current.redo();
+    if (!command) return;
+    workflowRef.current = applyCommand(workflowRef.current, command, direction);
+    setWorkflow(current => applyCommand(current, command, direction));
+    const remaining = new Set(workflowRef.current.nodes.map(node => node.id));
+    setSelectedNodeIds(ids => ids.filter(id => remaining.has(id)));
+    setSelectedConnectionIndices([]);
+    setHistoryVersion(v => v + 1);
+  }, []);
+
+  // The native change event ends a settings gesture: a text field committed on blur, an option
+  // picked, a slider released. React's onChange fires on each keystroke, so typing still merges.
+  useEffect(() => {
+    const handleChange = () => historyRef.current.endCoalescing();
+    window.addEventListener('change', handleChange);
+    return () => window.removeEventListener('change', handleChange);
+  }, []);
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      stepHistory(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stepHistory]);
+
+  const toCanvasPoint = useCallback((clientX: number, clientY: number): Position => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const t = transformRef.current;
+    return { x: (clientX - rect.left - t.x) / t.scale, y: (clientY - rect.top - t.y) / t.scale };
+  }, []);
+
+  // Measure connector positions so wires can follow nodes without touching the DOM while dragging
+  const measureConnectors = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const scale = transformRef.current.scale;
+    const next = new Map<string, Position>();
+    canvas.querySelectorAll('.node').forEach(nodeElement => {
+      const nodeRect = nodeElement.getBoundingClientRect();
+      nodeElement.querySelectorAll('.connector').forEach(connector => {
+        const rect = connector.getBoundingClientRect();
+        next.set(connector.id, {
+          x: (rect.left + rect.width / 2 - nodeRect.left) / scale,
+          y: (rect.top + rect.height / 2 - nodeRect.top) / scale,
+        });
+      });
+    });
+    const previous = connectorOffsets.current;
+    const changed = next.size !== previous.size || [...next].some(([id, offset]) => {
+      const old = previous.get(id);
+      return !old || Math.abs(old.x - offset.x) > 0.5 || Math.abs(old.y - offset.y) > 0.5;
+    });
+    if (changed) {
+      connectorOffsets.current = next;
+      setLayoutVersion(version => version + 1);
+    }
+  }, []);
+
+  useLayoutEffect(measureConnectors);
+
+  // Media previews change node heights after they load
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => measureConnectors());
+    canvas.querySelectorAll('.node').forEach(element => observer.observe(element));
+    return () => observer.disconnect();
+  }, [nodes.length, measureConnectors]);
+
+  const connectorPosition = (point: ConnectionPoint): Position | null => {
+    const node = nodes.find(n => n.id === point.nodeId);
+    const offset = connectorOffsets.current.get(`connector-${point.nodeId}-${sanitizeForId(point.connectorName)}`);
+    if (!node || !offset) return null;
+    return { x: node.position.x + offset.x, y: node.position.y + offset.y };
+  };
+
+  // Zoom around the cursor; a native listener so the page itself does not scroll
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      if ((e.target as HTMLElement).closest('#node-menu, .generated-outputs-container')) return;
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      setTransform(t => {
+        const scale = clampScale(t.scale * Math.exp(-e.deltaY * 0.0015));
+        const ratio = scale / t.scale;
+        return { x: px - (px - t.x) * ratio, y: py - (py - t.y) * ratio, scale };
+      });
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const zoomBy = (factor: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const px = canvas.clientWidth / 2;
+    const py = canvas.clientHeight / 2;
+    setTransform(t => {
+      const scale = clampScale(t.scale * factor);
+      const ratio = scale / t.scale;
+      return { x: px - (px - t.x) * ratio, y: py - (py - t.y) * ratio, scale };
+    });
+  };
+
+  const completeConnection = useCallback((start: ConnectionStartPoint, end: ConnectionPoint) => {
+    const from = start.type === 'output' ? start : end;
+    const to = start.type === 'output' ? end : start;
+    edit('Connect', current => {
+      const connection = createConnection(current.nodes, { nodeId: from.nodeId, connectorName: from.connectorName }, { nodeId: to.nodeId, connectorName: to.connectorName });
+      return connection ? addConnection(current, connection) : current;
+    });
+  }, [edit]);
+
+  // Window listeners so drags keep working when the pointer leaves a node
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      if (drag.kind === 'pan') {
+        setTransform({
+          ...drag.origin,
+          x: drag.origin.x + e.clientX - drag.start.x,
+          y: drag.origin.y + e.clientY - drag.start.y,
+        });
+      } else if (drag.kind === 'nodes') {
+        const scale = transformRef.current.scale;
+        const dx = (e.clientX - drag.start.x) / scale;
+        const dy = (e.clientY - drag.start.y) / scale;
+        edit('Move', current => ({
+          ...current,
+          nodes: current.nodes.map(node => {
+            const origin = drag.origins[node.id];
+            return origin ? { ...node, position: snapPosition({ x: origin.x + dx, y: origin.y + dy }) } : node;
+          }),
+        }), `move-${drag.id}`);
+      } else {
+        setPointer(toCanvasPoint(e.clientX, e.clientY));
+      }
+    };
+
+    // Connector and node mouseup handlers run first and clear the drag when they complete a wire
+    const handleMouseUp = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (drag?.kind !== 'connection') return;
+      const start = draggingConnectionRef.current;
+      setDraggingConnection(null);
+      const canvas = canvasRef.current;
+      if (!start || !canvas || !canvas.contains(e.target as Node)) return;
+      // Dropped on empty canvas: offer the nodes that could take the wire
+      const rect = canvas.getBoundingClientRect();
+      setNodeMenu({
+        screen: { x: e.clientX - rect.left, y: e.clientY - rect.top },
+        canvas: toCanvasPoint(e.clientX, e.clientY),
+        pendingConnection: start,
+      });
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [toCanvasPoint, edit]);
+
+  // Leaving the builder cancels a run in progress
+  useEffect(() => () => runControllerRef.current?.abort(), []);
+
+  const deleteNodes = useCallback((nodeIds: string[]) => {
+    edit(nodeIds.length > 1 ? 'Delete nodes' : 'Delete node', current => removeNodes(current, nodeIds));
+    setSelectedNodeIds(ids => ids.filter(id => !nodeIds.includes(id)));
+    setSelectedConnectionIndices([]);
+  }, [edit]);
+
+  const deleteNode = useCallback((nodeId: string) => deleteNodes([nodeId]), [deleteNodes]);
+
+  const deleteSelectedConnections = useCallback(() => {
+    edit(selectedConnectionIndices.length > 1 ? 'Delete connections' : 'Delete connection', current => ({
+      ...current,
+      connections: current.connections.filter((_, index) => !selectedConnectionIndices.includes(index)),
+    }));
+    setSelectedConnectionIndices([]);
+  }, [selectedConnectionIndices, edit]);
+
+  // Delete or Backspace removes the selection unless the user is typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (selectedConnectionIndices.length > 0) {
+        deleteSelectedConnections();
+      } else if (selectedNodeIds.length > 0) {
+        deleteNodes(selectedNodeIds);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedNodeIds, selectedConnectionIndices, deleteNodes, deleteSelectedConnections]);
+
+  const handleCanvasMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('#node-menu')) return;
+    if (!e.shiftKey) {
+      setSelectedNodeIds([]);
+      setSelectedConnectionIndices([]);
+    }
+    dragRef.current = { kind: 'pan', start: { x: e.clientX, y: e.clientY }, origin: transformRef.current };
+  };
+
+  const handleCanvasDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('.node, #node-menu')) return;
+    const rect = canvasRef.current!.getBoundingClientRect();
+    setNodeMenu({ screen: { x: e.clientX - rect.left, y: e.clientY - rect.top }, canvas: toCanvasPoint(e.clientX, e.clientY) });
+  };
+
+  const handleNodeMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>, nodeId: string) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    if ((e.target as HTMLElement).closest('button, input, textarea, select, video')) return;
+    setSelectedConnectionIndices([]);
+
+    // Shift toggles the node; a plain click keeps a multi-selection so it can be dragged together
+    const ids = selectedNodeIdsRef.current;
+    const selection = e.shiftKey
+      ? (ids.includes(nodeId) ? ids.filter(id => id !== nodeId) : [...ids, nodeId])
+      : (ids.includes(nodeId) ? ids : [nodeId]);
+    setSelectedNodeIds(selection);
+
+    const origins: Record<string, Position> = {};
+    workflowRef.current.nodes.forEach(node => {
+      if (selection.includes(node.id)) origins[node.id] = node.position;
+    });
+    dragRef.current = { kind: 'nodes', id: ++dragCounterRef.current, start: { x: e.clientX, y: e.clientY }, origins };
+  }, []);
+
+  // A wire dropped on a node body connects to its first compatible connector
+  const handleNodeMouseUp = useCallback((e: React.MouseEvent<HTMLDivElement>, nodeId: string) => {
+    const start = draggingConnectionRef.current;
+    if (!start || dragRef.current?.kind !== 'connection') return;
+    dragRef.current = null;
+    setDraggingConnection(null);
+    edit('Connect', current => {
+      const node = current.nodes.find(n => n.id === nodeId);
+      const connectorName = node && findCompatibleConnector(node, start, current.connections);
+      if (!connectorName) return current;
+      const from = start.type === 'output' ? start : { nodeId, connectorName };
+      const to = start.type === 'output' ? { nodeId, connectorName } : start;
+      const connection = createConnection(current.nodes, from, to);
+      return connection ? addConnection(current, connection) : current;
+    });
+  }, [edit]);
+
+  const handleConnectorMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>, from: ConnectionPoint, type: 'input' | 'output') => {
+    e.stopPropagation();
+    const node = workflowRef.current.nodes.find(n => n.id === from.nodeId);
+    const definition = node && getConnectorDefinition(node, from.connectorName, type);
+    if (!definition) return;
+    dragRef.current = { kind: 'connection' };
+    setDraggingConnection({ ...from, type, dataType: definition.type });
+    setPointer(toCanvasPoint(e.clientX, e.clientY));
+  }, [toCanvasPoint]);
+
+  const handleConnectorMouseUp = useCallback((e: React.MouseEvent<HTMLDivElement>, to: ConnectionPoint, type: 'input' | 'output') => {
+    const start = draggingConnectionRef.current;
+    if (!start || dragRef.current?.kind !== 'connection') return;
+    e.stopPropagation();
+    dragRef.current = null;
+    setDraggingConnection(null);
+    if (start.type !== type) {
+      completeConnection(start, to);
+    }
+  }, [completeConnection]);
+
+  const handleExposeMore = useCallback((nodeId: string, connectorName: string) => {
+    edit('Show another input', current => ({
+      ...current,
+      nodes: current.nodes.map(node => node.id === nodeId ? exposeNextSlot(node, connectorName) : node),
+    }));
+  }, [edit]);
+
+  // Settings can remove outputs (fewer images), so drop wires that lost their connector.
+  // Typing into one field undoes as a single step, until the field is committed.
+  const updateNodeSettings = useCallback((nodeId: string, settings: Record<string, any>) => {
+    const previous = workflowRef.current.nodes.find(node => node.id === nodeId)?.settings || {};
+    const changedKeys = Object.keys(settings).filter(key => settings[key] !== previous[key]).sort().join(',');
+    edit('Change settings', current => pruneConnections({
+      ...current,
+      nodes: current.nodes.map(node => node.id === nodeId ? { ...node, settings } : node),
+    }), `settings-${nodeId}-${changedKeys}`);
+  }, [edit]);
+
+  const addNode = (typeKey: string) => {
+    if (!nodeMenu) return;
+    const node = createNode(typeKey, nodeMenu.canvas);
+    const start = nodeMenu.pendingConnection;
+    edit('Add node', current => {
+      let next: Workflow = { ...current, nodes: [...current.nodes, node] };
+      const connectorName = start && findCompatibleConnector(node, start, current.connections);
+      if (start && connectorName) {
+        const from = start.type === 'output' ? start : { nodeId: node.id, connectorName };
+        const to = start.type === 'output' ? { nodeId: node.id, connectorName } : start;
+        const connection = createConnection(next.nodes, from, to);
+        if (connection) next = addConnection(next, connection);
+      }
+      return next;
+    });
+    setSelectedNodeIds([node.id]);
+    setSelectedConnectionIndices([]);
+    setNodeMenu(null);
+  };
+
+  const openNodeMenuAtCenter = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    const screen = { x: rect.width / 2 - 160, y: Math.max(16, rect.height / 2 - 200) };
+    setNodeMenu({ screen, canvas: toCanvasPoint(rect.left + rect.width / 2 - NODE_WIDTH / 2, rect.top + rect.height / 2 - 100) });
+  };
+
+  const closeNodeMenu = useCallback(() => setNodeMenu(null), []);
+
+  const focusNode = (nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    const canvas = canvasRef.current;
+    if (!node || !canvas) return;
+    setTransform(t => ({
+      ...t,
+      x: canvas.clientWidth / 2 - (node.position.x + NODE_WIDTH / 2) * t.scale,
+      y: canvas.clientHeight / 2 - (node.position.y + 100) * t.scale,
+    }));
+    setSelectedNodeIds([nodeId]);
+    setSelectedConnectionIndices([]);
+    if (isMobile) setIsMapVisible(false);
+  };
+
+  const selectConnection = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    setSelectedNodeIds([]);
+    setSelectedConnectionIndices(indices => {
+      if (!e.shiftKey) return [index];
+      return indices.includes(index) ? indices.filter(i => i !== index) : [...indices, index];
+    });
+  };
+
+  // Media dragged from a node or the Generations panel becomes an input node
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const data = e.dataTransfer.getData(MEDIA_DRAG_TYPE);
+    if (!data) return;
+    e.preventDefault();
+    try {
+      const item = JSON.parse(data) as MediaItem;
+      const node = createNode(`input-${item.type}`, toCanvasPoint(e.clientX, e.clientY));
+      node.settings = { ...node.settings, src: item.url, fileName: item.mediaId, mediaId: item.mediaId, sourceType: item.sourceType };
+      edit('Add node', current => ({ ...current, nodes: [...current.nodes, node] }));
+      setSelectedNodeIds([node.id]);
+    } catch {
+      // Not a media item from this app
+    }
+  };
+
+  const patchNode = (nodeId: string, changes: Partial<NodeData>) => {
+    setWorkflow(current => ({
+      ...current,
+      nodes: current.nodes.map(node => node.id === nodeId ? { ...node, ...changes } : node),
+    }));
+  };
+
+  // Mirror engine events onto the canvas as they arrive
+  const handleRunEvent = (event: WorkflowEvent) => {
+    switch (event.type) {
+      case 'run-started':
+        setWorkflow(current => ({
+          ...current,
+          nodes: current.nodes.map(node => event.order.includes(node.id) ? { ...node, status: 'idle', outputData: undefined } : node),
+        }));
+        setRun({ status: 'running', finished: 0, total: event.order.length, errors: {} });
+        break;
+      case 'node-status':
+        patchNode(event.nodeId, { status: event.status });
+        break;
+      case 'node-output':
+        patchNode(event.nodeId, { outputData: event.outputs });
+        if (event.outputs.length > 0 && !isMobile) setIsGenerationsOpen(true);
+        break;
+      case 'run-progress':
+        setRun(current => current && { ...current, finished: event.finished, total: event.total });
+        break;
+    }
+  };
+
+  const startRun = async () => {
+    if (!client) {
+      alert('Add your Leonardo.ai API key in Settings to run workflows.');
+      return;
+    }
+    const problems = validateWorkflow(workflowRef.current);
+    if (problems.length > 0) {
+      alert(`This workflow cannot run yet:\n\n${problems.join('\n')}`);
+      return;
+    }
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    try {
+      const result = await runWorkflow(workflowRef.current, client, { signal: controller.signal, onEvent: handleRunEvent });
+      setRun(current => current && { ...current, status: result.status, errors: result.errors });
+    } catch (error) {
+      setRun(null);
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (runControllerRef.current === controller) runControllerRef.current = null;
+    }
+  };
+
+  const exportWorkflow = async () => {
+    const hasInputMedia = nodes.some(node => (node.typeKey === 'input-image' || node.typeKey === 'input-video') && node.settings.src);
+    const embedMedia = hasInputMedia && confirm('Include the input images and videos in the file? The file is larger but opens anywhere.');
+    try {
+      const file = await serializeWorkflow(workflow, { transform, embedMedia });
+      downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), workflowFileName());
+    } catch (error) {
+      alert(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const importWorkflow = async (file: File | undefined) => {
+    if (!file) return;
+    if (nodes.length > 0 && !confirm('Replace the current workflow with the imported one?')) return;
+    try {
+      const loaded = parseWorkflowFile(await file.text());
+      runControllerRef.current?.abort();
+      setWorkflow(loaded.workflow);
+      historyRef.current.clear();
+      setHistoryVersion(v => v + 1);
+      if (loaded.transform) setTransform(loaded.transform);
+      setSelectedNodeIds([]);
+      setSelectedConnectionIndices([]);
+      setRun(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Publish the current graph as a form showing only its exposed inputs
+  const publishApp = async () => {
+    if (getAppInputs(workflow).length === 0
+      && !confirm('No input is marked "Expose as an input", so the app will have no fields. Publish anyway?')) return;
+    const name = prompt('Name the app', 'Untitled app');
+    if (name === null) return;
+    try {
+      await publishWorkflowApp(workflow, name.trim() || 'Untitled app');
+      onOpenApp();
+    } catch (error) {
+      alert(`Publishing failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const isRunning = run?.status === 'running';
+  // Failed nodes and the ones skipped because of them
+  const failedNodes = run && run.status === 'failed'
+    ? nodes.filter(node => run.errors[node.id])
+    : [];
+
+  const draggingFrom = draggingConnection && connectorPosition(draggingConnection);
+
+  return (
+    <div className="leo-workflow">
+      <header className="leo-workflow-header">
+        <div className="leo-cluster leo-cluster-3" style={{ alignItems: 'center' }}>
+          <button onClick={onExit} className="leo-button leo-button-ghost leo-button-sm" title="Back to the single-prompt generator">
+            &larr; Generator
+          </button>
+          <h1 className="leo-text-lg leo-font-medium leo-text-primary">Workflow Builder</h1>
+        </div>
+        <div className="leo-cluster leo-cluster-2" style={{ alignItems: 'center' }}>
+          {run && (
+            <span className={`leo-text-xs ${run.status === 'failed' ? 'leo-text-negative' : 'leo-text-tertiary'}`} role="status">
+              {isRunning ? `Running ${run.finished}/${run.total}` : run.status === 'completed' ? 'Run complete' : run.status === 'failed' ? 'Run failed' : 'Run cancelled'}
+            </span>
+          )}
+          {isRunning ? (
+            <button onClick={() => runControllerRef.current?.abort()} className="leo-button leo-button-secondary leo-button-sm">
+              Cancel
+            </button>
+          ) : (
+            <button onClick={startRun} disabled={nodes.length === 0} className="leo-button leo-button-primary leo-button-sm">
+              Run Workflow
+            </button>
+          )}
+          <button
+            onClick={() => stepHistory('undo')}
+            disabled={!historyRef.current.canUndo}
+            className="leo-button leo-button-ghost leo-button-sm"
+            title={historyRef.current.undoLabel ? `Undo ${historyRef.current.undoLabel.toLowerCase()} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+            aria-label="Undo"
+          >
+            &#8630;
+          </button>
+          <button
+            onClick={() => stepHistory('redo')}
+            disabled={!historyRef.current.canRedo}
+            className="leo-button leo-button-ghost leo-button-sm"
+            title={historyRef.current.redoLabel ? `Redo ${historyRef.current.redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+            aria-label="Redo"
+          >
+            &#8631;
+          </button>
+          <button onClick={openNodeMenuAtCenter} className="leo-button leo-button-secondary leo-button-sm">
+            <PlusIcon /> Add Node
+          </button>
+          <button onClick={() => importInputRef.current?.click()} className="leo-button leo-button-ghost leo-button-sm" title="Open a workflow file">
+            <ImportIcon /> Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              importWorkflow(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={exportWorkflow} disabled={nodes.length === 0} className="leo-button leo-button-ghost leo-button-sm" title="Save the workflow as a file">
+            <ExportIcon /> Export
+          </button>
+          <button onClick={publishApp} disabled={nodes.length === 0} className="leo-button leo-button-ghost leo-button-sm" title="Publish as a simple form for others to run">
+            Publish App
+          </button>
+          <button onClick={() => setIsMapVisible(!isMapVisible)} className="leo-button leo-button-ghost leo-button-sm" aria-pressed={isMapVisible}>
+            <MapIcon /> Map
+          </button>
+          <button onClick={() => setIsGenerationsOpen(!isGenerationsOpen)} className="leo-button leo-button-ghost leo-button-sm" aria-pressed={isGenerationsOpen}>
+            Generations{generations.length > 0 ? ` (${generations.length})` : ''}
+          </button>
+          <button onClick={onOpenSettings} className="leo-button leo-button-ghost leo-button-sm">
+            Settings
+          </button>
+        </div>
+      </header>
+
+      {failedNodes.length > 0 && (
+        <div className="leo-workflow-run-errors" role="alert">
+          {failedNodes.map(node => (
+            <button key={node.id} onClick={() => focusNode(node.id)} className="leo-workflow-run-error leo-text-xs leo-text-negative" title="Show node">
+              {NODE_TYPES[node.typeKey]?.name || node.typeKey}: {run!.errors[node.id]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div
+        ref={canvasRef}
+        className={`leo-workflow-canvas ${draggingConnection ? 'leo-workflow-canvas-connecting' : ''}`}
+        onMouseDown={handleCanvasMouseDown}
+        onDoubleClick={handleCanvasDoubleClick}
+        onDragOver={(e) => {
+          if (e.dataTransfer.types.includes(MEDIA_DRAG_TYPE)) e.preventDefault();
+        }}
+        onDrop={handleDrop}
+        style={{
+          backgroundSize: `${GRID_SIZE * transform.scale}px ${GRID_SIZE * transform.scale}px`,
+          backgroundPosition: `${transform.x}px ${transform.y}px`,
+        }}
+      >
+        <div
+          className="leo-workflow-layer"
+          style={{
+            width: VIRTUAL_CANVAS_SIZE,
+            height: VIRTUAL_CANVAS_SIZE,
+            transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+          }}
+        >
+          <svg className="leo-workflow-wires" width={VIRTUAL_CANVAS_SIZE} height={VIRTUAL_CANVAS_SIZE}>
+            {connections.map((connection, index) => {
+              const from = connectorPosition(connection.from);
+              const to = connectorPosition(connection.to);
+              if (!from || !to) return null;
+              const path = wirePath(from, to);
+              const isSelected = selectedConnectionIndices.includes(index);
+              return (
+                <g key={`${connection.from.nodeId}-${connection.from.connectorName}-${connection.to.nodeId}-${connection.to.connectorName}`}>
+                  <path d={path} className="leo-workflow-wire-hit" onMouseDown={(e) => selectConnection(e, index)} />
+                  <path
+                    d={path}
+                    className="leo-workflow-wire"
+                    stroke={isSelected ? '#FFFFFF' : TYPE_COLORS[connection.dataType]}
+                    strokeWidth={isSelected ? 4 : 2.5}
+                  />
+                </g>
+              );
+            })}
+            {draggingConnection && draggingFrom && (
+              <path
+                d={draggingConnection.type === 'output' ? wirePath(draggingFrom, pointer) : wirePath(pointer, draggingFrom)}
+                className="leo-workflow-wire"
+                stroke={TYPE_COLORS[draggingConnection.dataType]}
+                strokeWidth={2.5}
+                strokeDasharray="6 4"
+              />
+            )}
+          </svg>
+
+          {nodes.map(node => (
+            <NodeComponent
+              key={node.id}
+              node={node}
+              isSelected={selectedNodeIds.includes(node.id)}
+              onMouseDown={handleNodeMouseDown}
+              onNodeMouseUp={handleNodeMouseUp}
+              onDelete={deleteNode}
+              onConnectorMouseDown={handleConnectorMouseDown}
+              onConnectorMouseUp={handleConnectorMouseUp}
+              onExposeMore={handleExposeMore}
+              draggingConnectionInfo={draggingConnection}
+              connections={connections}
+              isDevMode={false}
+            />
+          ))}
+        </div>
+
+        {nodes.length === 0 && (
+          <div className="leo-workflow-empty">
+            <p className="leo-text-base leo-text-secondary">Double-click the canvas or use Add Node to start a workflow.</p>
+            <p className="leo-text-sm leo-text-tertiary">Drag from a connector to wire nodes together.</p>
+          </div>
+        )}
+
+        <div className="leo-workflow-zoom" onMouseDown={(e) => e.stopPropagation()} onDoubleClick={(e) => e.stopPropagation()}>
+          <button onClick={() => zoomBy(1 / 1.2)} className="leo-button leo-button-ghost leo-button-sm" disabled={transform.scale <= MIN_ZOOM} title="Zoom out">&minus;</button>
+          <button onClick={() => setTransform(t => ({ ...t, scale: 1 }))} className="leo-button leo-button-ghost leo-button-sm" title="Reset zoom">
+            {Math.round(transform.scale * 100)}%
+          </button>
+          <button onClick={() => zoomBy(1.2)} className="leo-button leo-button-ghost leo-button-sm" disabled={transform.scale >= MAX_ZOOM} title="Zoom in">+</button>
+        </div>
+
+        <NodeMenu
+          isVisible={!!nodeMenu}
+          position={nodeMenu?.screen || { x: 0, y: 0 }}
+          onClose={closeNodeMenu}
+          onSelect={addNode}
+          filterType={nodeMenu?.pendingConnection?.dataType}
+          sourceConnectorType={nodeMenu?.pendingConnection?.type}
+        />
+      </div>
+
+      <MapPanel
+        nodes={nodes}
+        isVisible={isMapVisible}
+        onClose={() => setIsMapVisible(false)}
+        onNodeClick={focusNode}
+        isMobile={isMobile}
+      />
+
+      <Sidebar
+        selectedNodes={selectedNodes}
+        onDeleteNodes={deleteNodes}
+        selectedConnectionIndices={selectedConnectionIndices}
+        onDeleteConnections={deleteSelectedConnections}
+        onUpdateNodeSettings={updateNodeSettings}
+        onUploadFile={onUploadFile}
+        connections={connections}
+        isMobile={isMobile}
+      />
+
+      <GenerationsPanel
+        isOpen={isGenerationsOpen}
+        onClose={() => setIsGenerationsOpen(false)}
+        generations={generations}
+        isMobile={isMobile}
+      />
+    </div>
+  );
+};
+
+export default WorkflowBuilder;
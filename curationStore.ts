@@ -0,0 +1,92 @@
+/**
+ * Image Curation Store
+ *
+ * Favorites, free-form tags and named collections for generated images,
+ * kept in IndexedDB by mediaId. MediaItems themselves stay as the API
+ * returns them; curation is looked up alongside.
+ */
+
+import { settle, openDatabase } from './indexedDb';
+import { MediaCuration, MediaCollection } from './types';
+
+const DB_NAME = 'leonardo-curation';
+const DB_VERSION = 1;
+const MEDIA_STORE = 'media';
+const COLLECTIONS_STORE = 'collections';
+
+export const emptyCuration = (mediaId: string): MediaCuration => ({
+  mediaId,
+  favorite: false,
+  tags: [],
+  collectionIds: [],
+});
+
+// Nothing worth storing; such records are deleted instead of written
+export const isEmptyCuration = (curation: MediaCuration): boolean => {
+  return !curation.favorite && curation.tags.length === 0 && curation.collectionIds.length === 0;
+};
+
+// Tags are compared case-insensitively, so store them trimmed and lower-cased
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const addTag = (curation: MediaCuration, tag: string): MediaCuration => {
+  const normalized = normalizeTag(tag);
+  if (!normalized || curation.tags.includes(normalized)) return curation;
+  return { ...curation, tags: [...curation.tags, normalized] };
+};
+
+export const removeTag = (curation: MediaCuration, tag: string): MediaCuration => {
+  return { ...curation, tags: curation.tags.filter(t => t !== tag) };
+};
+
+export const toggleCollection = (curation: MediaCuration, collectionId: string): MediaCuration => {
+  const collectionIds = curation.collectionIds.includes(collectionId)
+    ? curation.collectionIds.filter(id => id !== collectionId)
+    : [...curation.collectionIds, collectionId];
+  return { ...curation, collectionIds };
+};
+
+export class CurationStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(MEDIA_STORE, { keyPath: 'mediaId' });
+        db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+      });
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction<R>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+    const db = await this.open();
+    return settle(run(db.transaction(storeName, mode).objectStore(storeName)));
+  }
+
+  async load(): Promise<{ media: MediaCuration[]; collections: MediaCollection[] }> {
+    const [media, collections] = await Promise.all([
+      this.transaction(MEDIA_STORE, 'readonly', store => store.getAll() as IDBRequest<MediaCuration[]>),
+      this.transaction(COLLECTIONS_STORE, 'readonly', store => store.getAll() as IDBRequest<MediaCollection[]>),
+    ]);
+    return { media, collections: collections.sort((a, b) => a.createdAt - b.createdAt) };
+  }
+
+  async saveMedia(curation: MediaCuration): Promise<void> {
+    if (isEmptyCuration(curation)) {
+      await this.transaction(MEDIA_STORE, 'readwrite', store => store.delete(curation.mediaId));
+    } else {
+      await this.transaction(MEDIA_STORE, 'readwrite', store => store.put(curation));
+    }
+  }
+
+  async saveCollection(collection: MediaCollection): Promise<void> {
+    await this.transaction(COLLECTIONS_STORE, 'readwrite', store => store.put(collection));
+  }
+
+  // Callers also remove the collection from each image's collectionIds
+  async deleteCollection(collectionId: string): Promise<void> {
+    await this.transaction(COLLECTIONS_STORE, 'readwrite', store => store.delete(collectionId));
+  }
+}
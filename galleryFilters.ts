@@ -0,0 +1,144 @@
+/**
+ * Gallery Search and Filters
+ *
+ * Matches generation jobs against a text search over the original and
+ * enhanced prompt plus filters on model, the model Auto picked, aspect
+ * ratio, date range, status and reference image use. Works on any job shape
+ * with these fields, so local history and server pages filter the same way.
+ *
+ * Favorites, tag and collection filters apply per image: a job matches when
+ * at least one of its images does, and matchingImages narrows the job down.
+ */
+
+import { MediaCuration } from './types';
+
+export type GalleryStatusFilter = 'all' | 'completed' | 'running' | 'error';
+export type ReferenceFilter = 'all' | 'with' | 'without';
+
+export interface GalleryFilters {
+  query: string;
+  model: string; // '' matches any
+  actualModel: string; // '' matches any
+  aspectRatio: string; // '' matches any
+  dateFrom: string; // yyyy-mm-dd, inclusive; '' for no lower bound
+  dateTo: string; // yyyy-mm-dd, inclusive; '' for no upper bound
+  status: GalleryStatusFilter;
+  references: ReferenceFilter;
+  favoritesOnly: boolean;
+  tag: string; // '' matches any
+  collectionId: string; // '' matches any
+}
+
+export const EMPTY_GALLERY_FILTERS: GalleryFilters = {
+  query: '',
+  model: '',
+  actualModel: '',
+  aspectRatio: '',
+  dateFrom: '',
+  dateTo: '',
+  status: 'all',
+  references: 'all',
+  favoritesOnly: false,
+  tag: '',
+  collectionId: '',
+};
+
+export const GALLERY_STATUS_LABELS: Record<GalleryStatusFilter, string> = {
+  all: 'Any status',
+  completed: 'Completed',
+  running: 'In progress',
+  error: 'Failed',
+};
+
+export const REFERENCE_FILTER_LABELS: Record<ReferenceFilter, string> = {
+  all: 'With or without references',
+  with: 'Used reference images',
+  without: 'No reference images',
+};
+
+export interface FilterableJob {
+  prompt: string;
+  enhancedPrompt?: string;
+  model: string;
+  actualModel?: string;
+  aspectRatio: string;
+  timestamp: number;
+  status: 'enhancing' | 'loading' | 'completed' | 'error';
+  referenceImages?: unknown[];
+  referenceConfig?: { count: number };
+  images?: { mediaId: string }[];
+}
+
+export type CurationLookup = (mediaId: string) => MediaCuration | undefined;
+
+export const hasActiveFilters = (filters: GalleryFilters): boolean => {
+  return (Object.keys(EMPTY_GALLERY_FILTERS) as (keyof GalleryFilters)[])
+    .some(key => filters[key] !== EMPTY_GALLERY_FILTERS[key]);
+};
+
+// Date inputs give local calendar days; compare against local midnight boundaries
+const startOfDay = (date: string): number => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string): number => new Date(`${date}T23:59:59.999`).getTime();
+
+const usesReferenceImages = (job: FilterableJob): boolean => {
+  return (job.referenceImages?.length ?? 0) > 0 || (job.referenceConfig?.count ?? 0) > 0;
+};
+
+// Every whitespace-separated search term must appear in the prompt or enhanced prompt
+const matchesQuery = (job: FilterableJob, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const text = `${job.prompt}\n${job.enhancedPrompt || ''}`.toLowerCase();
+  return terms.every(term => text.includes(term));
+};
+
+const matchesStatus = (job: FilterableJob, status: GalleryStatusFilter): boolean => {
+  switch (status) {
+    case 'all': return true;
+    case 'running': return job.status === 'enhancing' || job.status === 'loading';
+    default: return job.status === status;
+  }
+};
+
+export const hasCurationFilters = (filters: GalleryFilters): boolean => {
+  return filters.favoritesOnly || !!filters.tag || !!filters.collectionId;
+};
+
+export const matchesCurationFilters = (curation: MediaCuration | undefined, filters: GalleryFilters): boolean => {
+  if (!hasCurationFilters(filters)) return true;
+  if (!curation) return false;
+  if (filters.favoritesOnly && !curation.favorite) return false;
+  if (filters.tag && !curation.tags.includes(filters.tag)) return false;
+  if (filters.collectionId && !curation.collectionIds.includes(filters.collectionId)) return false;
+  return true;
+};
+
+// The job's images that pass the curation filters (all of them when none are set)
+export const matchingImages = <I extends { mediaId: string }>(images: I[], filters: GalleryFilters, getCuration: CurationLookup): I[] => {
+  if (!hasCurationFilters(filters)) return images;
+  return images.filter(image => matchesCurationFilters(getCuration(image.mediaId), filters));
+};
+
+export const matchesGalleryFilters = (job: FilterableJob, filters: GalleryFilters, getCuration: CurationLookup = () => undefined): boolean => {
+  if (!matchesQuery(job, filters.query)) return false;
+  if (filters.model && job.model !== filters.model) return false;
+  if (filters.actualModel && job.actualModel !== filters.actualModel) return false;
+  if (filters.aspectRatio && job.aspectRatio !== filters.aspectRatio) return false;
+  if (filters.dateFrom && job.timestamp < startOfDay(filters.dateFrom)) return false;
+  if (filters.dateTo && job.timestamp > endOfDay(filters.dateTo)) return false;
+  if (!matchesStatus(job, filters.status)) return false;
+  if (filters.references === 'with' && !usesReferenceImages(job)) return false;
+  if (filters.references === 'without' && usesReferenceImages(job)) return false;
+  if (hasCurationFilters(filters) && matchingImages(job.images || [], filters, getCuration).length === 0) return false;
+  return true;
+};
+
+// Distinct values present in the loaded jobs, for the filter dropdowns
+export const getFilterOptions = (jobs: FilterableJob[]): { models: string[]; actualModels: string[]; aspectRatios: string[] } => {
+  const distinct = (values: (string | undefined)[]) => [...new Set(values.filter((value): value is string => !!value))].sort();
+  return {
+    models: distinct(jobs.map(job => job.model)),
+    actualModels: distinct(jobs.filter(job => job.model === 'Auto').map(job => job.actualModel)),
+    aspectRatios: distinct(jobs.map(job => job.aspectRatio)),
+  };
+};
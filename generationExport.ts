@@ -0,0 +1,217 @@
+/**
+ * Generation Export
+ *
+ * Packages generated media into a ZIP with a provenance manifest. Every file
+ * gets a manifest row recording the prompt, enhanced prompt, model (and the
+ * model Auto picked), seed, aspect ratio, style, contrast, reference settings
+ * and Leonardo generation ID, written as both manifest.json and manifest.csv.
+ * PNG and JPEG files also carry the generation recipe in their metadata.
+ */
+
+import { createZip, ZipEntry } from './zipArchive';
+import { MediaItem } from './types';
+import { CreateGenerationRequest, CreateTextToVideoRequest, CreateMotionSvdRequest } from './leonardoClient';
+import { SelectionTrace } from './autoModelLogic';
+import { embedRecipe, GenerationRecipe, RECIPE_VERSION } from './imageMetadata';
+
+export interface ExportableJob {
+  prompt: string;
+  enhancedPrompt?: string;
+  model: string;
+  actualModel?: string;
+  aspectRatio: string;
+  timestamp: number;
+  seed?: number; // Seed Leonardo used, when known
+  presetStyle?: string;
+  generationId?: string;
+  referenceConfig?: { type: string; strength?: string; weight?: number; count: number };
+  request?: CreateGenerationRequest | CreateTextToVideoRequest | CreateMotionSvdRequest;
+  selectionTrace?: SelectionTrace;
+}
+
+export interface ExportItem {
+  job: ExportableJob;
+  media: MediaItem;
+}
+
+export interface ManifestEntry {
+  file: string;
+  mediaId: string;
+  mediaType: 'image' | 'video';
+  generationId: string | null;
+  prompt: string;
+  enhancedPrompt: string | null;
+  model: string;
+  actualModel: string | null;
+  seed: number | null;
+  aspectRatio: string;
+  style: string | null;
+  contrast: number | null;
+  referenceConfig: ExportableJob['referenceConfig'] | null;
+  parentMediaId: string | null;
+  derivedBy: string | null;
+  createdAt: string;
+}
+
+export interface ExportOptions {
+  fetch?: typeof fetch;
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const MANIFEST_COLUMNS: (keyof ManifestEntry)[] = [
+  'file', 'mediaId', 'mediaType', 'generationId', 'prompt', 'enhancedPrompt', 'model', 'actualModel',
+  'seed', 'aspectRatio', 'style', 'contrast', 'referenceConfig', 'parentMediaId', 'derivedBy', 'createdAt',
+];
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+};
+
+// Short, filesystem-safe stem from the prompt
+const slugify = (text: string): string => {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'generation';
+};
+
+const extensionFor = (media: MediaItem, contentType: string | null): string => {
+  const byType = contentType && EXTENSIONS_BY_TYPE[contentType.split(';')[0].trim()];
+  if (byType) return byType;
+  const byUrl = media.url.split('?')[0].match(/\.([a-z0-9]{2,4})$/i);
+  if (byUrl) return byUrl[1].toLowerCase();
+  return media.type === 'video' ? 'mp4' : 'png';
+};
+
+export const exportFileName = (job: ExportableJob, media: MediaItem, extension: string): string => {
+  return `${slugify(job.prompt)}-${media.mediaId}.${extension}`;
+};
+
+// Seed, style and contrast only exist on image generation requests
+const imageSettings = (request: ExportableJob['request']): Partial<CreateGenerationRequest> => {
+  return request && 'modelId' in request ? request : {};
+};
+
+export const buildManifestEntry = (job: ExportableJob, media: MediaItem, file: string): ManifestEntry => ({
+  file,
+  mediaId: media.mediaId,
+  mediaType: media.type,
+  generationId: job.generationId || null,
+  prompt: job.prompt,
+  enhancedPrompt: job.enhancedPrompt || null,
+  model: job.model,
+  actualModel: job.actualModel || null,
+  seed: job.seed ?? imageSettings(job.request).seed ?? null,
+  aspectRatio: job.aspectRatio,
+  style: imageSettings(job.request).presetStyle || job.presetStyle || null,
+  contrast: imageSettings(job.request).contrast ?? null,
+  referenceConfig: job.referenceConfig || null,
+  parentMediaId: media.parentMediaId || null,
+  derivedBy: media.derivedBy || null,
+  createdAt: new Date(media.timestamp || job.timestamp).toISOString(),
+});
+
+// The recipe embedded into downloaded images
+export const buildRecipe = (job: ExportableJob): GenerationRecipe => {
+  const settings = imageSettings(job.request);
+  const trace = job.selectionTrace;
+  const modelId = settings.modelId || (job.request && 'model' in job.request ? job.request.model : undefined);
+  return {
+    version: RECIPE_VERSION,
+    prompt: job.prompt,
+    enhancedPrompt: job.enhancedPrompt,
+    model: job.model,
+    actualModel: job.actualModel,
+    modelId: modelId || undefined,
+    seed: job.seed ?? settings.seed ?? undefined,
+    presetStyle: settings.presetStyle || job.presetStyle,
+    contrast: settings.contrast,
+    aspectRatio: job.aspectRatio,
+    guidance: job.referenceConfig,
+    autoDecision: trace && {
+      selectedModel: trace.selectedModel,
+      recommendation: trace.recommendationString,
+      guidanceType: trace.guidanceType,
+      topScores: trace.scores.slice(0, 3).map(({ name, total }) => ({ name, total })),
+    },
+  };
+};
+
+// Fetch one file, embedding the recipe when it is a PNG or JPEG
+const fetchWithRecipe = async ({ job, media }: ExportItem, fetchImpl: typeof fetch, signal?: AbortSignal): Promise<{ data: Uint8Array; extension: string }> => {
+  const response = await fetchImpl(media.url, { signal });
+  if (!response.ok) {
+    throw new Error(`Could not download ${media.mediaId}: HTTP ${response.status}`);
+  }
+  const data = new Uint8Array(await response.arrayBuffer());
+  return {
+    data: media.type === 'image' ? embedRecipe(data, buildRecipe(job)) : data,
+    extension: extensionFor(media, response.headers.get('content-type')),
+  };
+};
+
+// Spreadsheets run text starting with these as a formula, so prompts could inject one
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const manifestToCsv = (entries: ManifestEntry[]): string => {
+  const rows = entries.map(entry => MANIFEST_COLUMNS.map(column => csvCell(entry[column])).join(','));
+  return [MANIFEST_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// Download every item and build the ZIP; fails if any file cannot be fetched,
+// since a partial export would silently lose provenance
+export const exportMediaZip = async (items: ExportItem[], options: ExportOptions = {}): Promise<Blob> => {
+  const { fetch: fetchImpl = globalThis.fetch.bind(globalThis), signal, onProgress } = options;
+  const entries: ZipEntry[] = [];
+  const manifest: ManifestEntry[] = [];
+  const usedNames = new Set<string>();
+
+  for (const [index, { job, media }] of items.entries()) {
+    const { data, extension } = await fetchWithRecipe({ job, media }, fetchImpl, signal);
+    let file = exportFileName(job, media, extension);
+    // The same media can be selected through two jobs; keep names unique
+    for (let n = 2; usedNames.has(file); n++) {
+      file = exportFileName(job, media, `${n}.${extension}`);
+    }
+    usedNames.add(file);
+
+    entries.push({ name: file, data, modified: new Date(media.timestamp || job.timestamp) });
+    manifest.push(buildManifestEntry(job, media, file));
+    onProgress?.(index + 1, items.length);
+  }
+
+  const encoder = new TextEncoder();
+  entries.push(
+    { name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    { name: 'manifest.csv', data: encoder.encode(manifestToCsv(manifest)) },
+  );
+  return createZip(entries);
+};
+
+// Download a single file with its recipe embedded
+export const downloadMedia = async (item: ExportItem, options: Omit<ExportOptions, 'onProgress'> = {}): Promise<void> => {
+  const { fetch: fetchImpl = globalThis.fetch.bind(globalThis), signal } = options;
+  const { data, extension } = await fetchWithRecipe(item, fetchImpl, signal);
+  downloadBlob(new Blob([data]), exportFileName(item.job, item.media, extension));
+};
+
+// Save a blob through a temporary download link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,241 @@
+/**
+ * Generation Polling Service
+ *
+ * Waits for an asynchronous Leonardo.ai job to finish by polling
+ * GET /generations/{id}, or GET /variations/{id} for variation jobs:
+ * - Exponential backoff with jitter between polls
+ * - An overall timeout for the whole wait
+ * - AbortSignal-based cancellation
+ * - Retries for transient failures (network errors, 429 and 5xx responses)
+ *
+ * waitForGenerationCompletion prefers a webhook event when a WebhookListener
+ * is connected and falls back to polling if none arrives in time.
+ *
+ * Every failure is raised as a GenerationFailure classified as timeout, api,
+ * network, moderation or cancelled, so the UI can explain what went wrong.
+ */
+
+import { LeonardoClient, LeonardoApiError, LeonardoNetworkError, Generation, GenerationStatus, ImageVariation } from './leonardoClient';
+import { WebhookListener } from './webhookListener';
+
+export type GenerationFailureKind = 'timeout' | 'api' | 'network' | 'moderation' | 'cancelled';
+
+export class GenerationFailure extends Error {
+  readonly kind: GenerationFailureKind;
+  readonly generationId?: string;
+
+  constructor(kind: GenerationFailureKind, message: string, generationId?: string) {
+    super(message);
+    this.name = 'GenerationFailure';
+    this.kind = kind;
+    this.generationId = generationId;
+  }
+}
+
+export interface PollOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  jitterRatio?: number; // Each delay is randomised by up to ± this fraction
+  timeoutMs?: number; // Overall limit for the whole wait
+  startedAt?: number; // When the wait began, if before polling did (e.g. a webhook wait); defaults to now
+  maxTransientRetries?: number; // Consecutive transient failures tolerated before giving up
+  signal?: AbortSignal;
+  onStatus?: (status: Generation['status']) => void;
+}
+
+export const DEFAULT_POLL_OPTIONS = {
+  initialDelayMs: 2000,
+  maxDelayMs: 15000,
+  backoffFactor: 1.5,
+  jitterRatio: 0.2,
+  timeoutMs: 5 * 60 * 1000,
+  maxTransientRetries: 5,
+};
+
+const MODERATION_PATTERN = /moderat|nsfw|content (policy|filter)|not allowed|inappropriate/i;
+
+const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+// Classify any error from creating or polling a generation
+export const classifyGenerationError = (error: unknown, generationId?: string): GenerationFailure => {
+  if (error instanceof GenerationFailure) return error;
+  if (isAbortError(error)) {
+    return new GenerationFailure('cancelled', 'Generation cancelled.', generationId);
+  }
+  if (error instanceof LeonardoApiError) {
+    const kind = MODERATION_PATTERN.test(error.body) ? 'moderation' : 'api';
+    return new GenerationFailure(kind, error.message, generationId);
+  }
+  if (error instanceof LeonardoNetworkError) {
+    return new GenerationFailure('network', error.message, generationId);
+  }
+  return new GenerationFailure('api', (error as Error)?.message || String(error), generationId);
+};
+
+// Rate limits and server errors are worth retrying; other API errors are not
+const isTransient = (error: unknown): boolean => {
+  if (error instanceof LeonardoApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // Only requests that got no response; a TypeError elsewhere is a bug and should fail fast
+  return error instanceof LeonardoNetworkError;
+};
+
+const withJitter = (delayMs: number, jitterRatio: number): number => {
+  return Math.round(delayMs * (1 + (Math.random() * 2 - 1) * jitterRatio));
+};
+
+// Sleep that rejects with an AbortError as soon as the signal fires
+const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Shared polling loop: fetchJob returns the job, or null while the API does not list it yet.
+// Resolves with the job once it is COMPLETE or FAILED; every error is raised as a GenerationFailure.
+const pollUntilFinished = async <T extends { status: GenerationStatus }>(
+  jobLabel: string,
+  jobId: string,
+  fetchJob: (signal?: AbortSignal) => Promise<T | null>,
+  options: PollOptions
+): Promise<T> => {
+  const {
+    initialDelayMs, maxDelayMs, backoffFactor, jitterRatio, timeoutMs, maxTransientRetries,
+  } = { ...DEFAULT_POLL_OPTIONS, ...options };
+  const { signal, onStatus } = options;
+
+  const startedAt = options.startedAt ?? Date.now();
+  let delayMs = initialDelayMs;
+  let transientFailures = 0;
+
+  try {
+    while (true) {
+      const remainingMs = timeoutMs - (Date.now() - startedAt);
+      if (remainingMs <= 0) {
+        throw new GenerationFailure('timeout', `${jobLabel} did not finish within ${Math.round(timeoutMs / 1000)}s.`, jobId);
+      }
+
+      await abortableSleep(Math.min(withJitter(delayMs, jitterRatio), remainingMs), signal);
+      delayMs = Math.min(maxDelayMs, delayMs * backoffFactor);
+
+      let job: T | null;
+      try {
+        job = await fetchJob(signal);
+      } catch (error) {
+        if (isTransient(error) && transientFailures < maxTransientRetries) {
+          transientFailures++;
+          continue;
+        }
+        throw error;
+      }
+
+      // A just-created job can briefly be missing; treat it like a transient failure
+      if (!job) {
+        if (transientFailures < maxTransientRetries) {
+          transientFailures++;
+          continue;
+        }
+        throw new GenerationFailure('api', `${jobLabel} ${jobId} was not found.`, jobId);
+      }
+
+      transientFailures = 0;
+      onStatus?.(job.status);
+
+      if (job.status === 'COMPLETE' || job.status === 'FAILED') {
+        return job;
+      }
+    }
+  } catch (error) {
+    throw classifyGenerationError(error, jobId);
+  }
+};
+
+// Poll a generation until it completes; resolves with the completed generation or throws a GenerationFailure
+export const pollGeneration = async (
+  client: LeonardoClient,
+  generationId: string,
+  options: PollOptions = {}
+): Promise<Generation> => {
+  const generation = await pollUntilFinished('Generation', generationId,
+    async (signal) => (await client.getGeneration(generationId, { signal })).generations_by_pk, options);
+  return checkFinishedGeneration(generation);
+};
+
+// Poll a variation (upscale, unzoom, background removal) via GET /variations/{id} until it has an image
+export const pollVariation = async (
+  client: LeonardoClient,
+  variationId: string,
+  options: PollOptions = {}
+): Promise<ImageVariation> => {
+  const variation = await pollUntilFinished('Variation', variationId,
+    async (signal) => (await client.getVariation(variationId, { signal })).generated_image_variation_generic[0] || null, options);
+  if (variation.status === 'FAILED') {
+    throw new GenerationFailure('api', 'Variation failed.', variationId);
+  }
+  if (!variation.url) {
+    throw new GenerationFailure('moderation', 'Variation completed without an image; it was likely blocked by content moderation.', variationId);
+  }
+  return variation;
+};
+
+// Turn a finished generation into a result, or a failure if it failed or came back empty
+const checkFinishedGeneration = (generation: Generation): Generation => {
+  if (generation.status === 'FAILED') {
+    throw new GenerationFailure('api', 'Generation failed.', generation.id);
+  }
+  // Leonardo drops images blocked by moderation, which can leave a completed job empty
+  if (!generation.generated_images || generation.generated_images.length === 0) {
+    throw new GenerationFailure('moderation', 'Generation completed without images; they were likely blocked by content moderation.', generation.id);
+  }
+  return generation;
+};
+
+export interface CompletionOptions extends PollOptions {
+  webhook?: WebhookListener | null;
+  webhookTimeoutMs?: number; // How long to wait for the webhook before falling back to polling
+}
+
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 90 * 1000;
+
+// Wait for a generation via webhook when a listener is connected, polling otherwise or if no event arrives in time
+export const waitForGenerationCompletion = async (
+  client: LeonardoClient,
+  generationId: string,
+  options: CompletionOptions = {}
+): Promise<Generation> => {
+  const { webhook, webhookTimeoutMs = DEFAULT_WEBHOOK_TIMEOUT_MS, ...pollOptions } = options;
+  // The webhook wait and the polling fallback share one deadline
+  const startedAt = Date.now();
+  const timeoutMs = pollOptions.timeoutMs ?? DEFAULT_POLL_OPTIONS.timeoutMs;
+
+  if (webhook?.isConnected) {
+    let generation: Generation | null;
+    try {
+      generation = await webhook.waitForGeneration(generationId, Math.min(webhookTimeoutMs, timeoutMs), pollOptions.signal);
+    } catch (error) {
+      throw classifyGenerationError(error, generationId);
+    }
+    if (generation && (generation.status === 'COMPLETE' || generation.status === 'FAILED')) {
+      return checkFinishedGeneration(generation);
+    }
+    console.warn(`No webhook for generation ${generationId} after ${webhookTimeoutMs / 1000}s, falling back to polling.`);
+  }
+
+  return pollGeneration(client, generationId, { ...pollOptions, startedAt });
+};
@@ -0,0 +1,256 @@
+/**
+ * Batch Generation Queue
+ *
+ * Runs many prompts through a caller-supplied runner with a concurrency cap.
+ * Items start in queue order; they can be reordered, held, released and
+ * cancelled, and the whole queue can be paused. A rate-limit response (HTTP
+ * 429) pauses the queue with exponential backoff and puts the item back at
+ * the front, so an overnight batch slows down instead of failing.
+ *
+ * The queue is headless: the UI subscribes to snapshots of its items.
+ */
+
+import { LeonardoApiError } from './leonardoClient';
+
+export type QueueItemStatus = 'queued' | 'held' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface QueueItem {
+  id: string;
+  prompt: string;
+  status: QueueItemStatus;
+  error?: string;
+  attempts: number; // Starts, including ones retried after a rate limit
+}
+
+export interface QueueState {
+  items: QueueItem[];
+  paused: boolean;
+  concurrency: number;
+  rateLimitedUntil: number | null; // Epoch ms the rate-limit pause ends, if any
+}
+
+// Runs one item and settles when its generation has finished
+export type QueueRunner = (item: QueueItem, signal: AbortSignal) => Promise<void>;
+
+export interface GenerationQueueOptions {
+  concurrency?: number;
+  rateLimitBackoffMs?: number; // First pause after a 429; doubles for consecutive ones
+  maxRateLimitBackoffMs?: number;
+}
+
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+export const MAX_QUEUE_CONCURRENCY = 8;
+
+const DEFAULT_RATE_LIMIT_BACKOFF_MS = 30_000;
+const DEFAULT_MAX_RATE_LIMIT_BACKOFF_MS = 5 * 60_000;
+
+export const isRateLimitError = (error: unknown): boolean => {
+  return error instanceof LeonardoApiError && error.status === 429;
+};
+
+// One prompt per non-empty line; pasted lists and text files use the same format
+export const parsePromptList = (text: string): string[] => {
+  return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+};
+
+const clampConcurrency = (concurrency: number): number => {
+  return Math.max(1, Math.min(MAX_QUEUE_CONCURRENCY, Math.round(concurrency) || 1));
+};
+
+export class GenerationQueue {
+  private readonly runner: QueueRunner;
+  private items: QueueItem[] = [];
+  private paused = false;
+  private concurrency: number;
+  private rateLimitedUntil: number | null = null;
+  private rateLimitTimer: ReturnType<typeof setTimeout> | null = null;
+  private consecutiveRateLimits = 0;
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly listeners = new Set<(state: QueueState) => void>();
+  private readonly rateLimitBackoffMs: number;
+  private readonly maxRateLimitBackoffMs: number;
+  private nextId = 1;
+
+  constructor(runner: QueueRunner, options: GenerationQueueOptions = {}) {
+    this.runner = runner;
+    this.concurrency = clampConcurrency(options.concurrency ?? DEFAULT_QUEUE_CONCURRENCY);
+    this.rateLimitBackoffMs = options.rateLimitBackoffMs ?? DEFAULT_RATE_LIMIT_BACKOFF_MS;
+    this.maxRateLimitBackoffMs = options.maxRateLimitBackoffMs ?? DEFAULT_MAX_RATE_LIMIT_BACKOFF_MS;
+  }
+
+  getState(): QueueState {
+    return {
+      items: this.items,
+      paused: this.paused,
+      concurrency: this.concurrency,
+      rateLimitedUntil: this.rateLimitedUntil,
+    };
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: (state: QueueState) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  add(prompts: string[]): QueueItem[] {
+    const added = prompts.map((prompt): QueueItem => ({
+      id: `queue-${Date.now()}-${this.nextId++}`,
+      prompt,
+      status: 'queued',
+      attempts: 0,
+    }));
+    this.items = [...this.items, ...added];
+    this.update();
+    return added;
+  }
+
+  // Move an item to a new position in the list
+  move(itemId: string, toIndex: number) {
+    const fromIndex = this.items.findIndex(item => item.id === itemId);
+    if (fromIndex === -1) return;
+    const items = [...this.items];
+    const [item] = items.splice(fromIndex, 1);
+    items.splice(Math.max(0, Math.min(toIndex, items.length)), 0, item);
+    this.items = items;
+    this.update();
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = clampConcurrency(concurrency);
+    this.update();
+  }
+
+  pause() {
+    this.paused = true;
+    this.update();
+  }
+
+  resume() {
+    this.paused = false;
+    this.clearRateLimit();
+    this.update();
+  }
+
+  // Keep a queued item from starting until it is released
+  hold(itemId: string) {
+    this.setStatus(itemId, 'held', ['queued']);
+  }
+
+  release(itemId: string) {
+    this.setStatus(itemId, 'queued', ['held']);
+  }
+
+  // Cancel a waiting item, or abort it if it is running
+  cancel(itemId: string) {
+    this.controllers.get(itemId)?.abort();
+    this.setStatus(itemId, 'cancelled', ['queued', 'held', 'running']);
+  }
+
+  // Failed and cancelled items go back to the end of the queue
+  retry(itemId: string) {
+    const item = this.items.find(i => i.id === itemId);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+    this.items = [...this.items.filter(i => i !== item), { ...item, status: 'queued', error: undefined }];
+    this.update();
+  }
+
+  // Drop finished, failed and cancelled items from the list
+  clearFinished() {
+    this.items = this.items.filter(item => item.status === 'queued' || item.status === 'held' || item.status === 'running');
+    this.update();
+  }
+
+  cancelAll() {
+    this.items.forEach(item => this.cancel(item.id));
+  }
+
+  private setStatus(itemId: string, status: QueueItemStatus, from: QueueItemStatus[]) {
+    const item = this.items.find(i => i.id === itemId);
+    if (!item || !from.includes(item.status)) return;
+    this.patch(itemId, { status });
+  }
+
+  private patch(itemId: string, changes: Partial<QueueItem>) {
+    this.items = this.items.map(item => item.id === itemId ? { ...item, ...changes } : item);
+    this.update();
+  }
+
+  private update() {
+    this.schedule();
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  // Start queued items, in order, while there is capacity
+  private schedule() {
+    if (this.paused || this.rateLimitedUntil !== null) return;
+    let running = this.items.filter(item => item.status === 'running').length;
+    for (const item of this.items) {
+      if (running >= this.concurrency) break;
+      if (item.status !== 'queued') continue;
+      running++;
+      this.start(item);
+    }
+  }
+
+  private start(item: QueueItem) {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    const started: QueueItem = { ...item, status: 'running', attempts: item.attempts + 1 };
+    this.items = this.items.map(i => i.id === item.id ? started : i);
+
+    // Deferred so schedule() finishes before the runner can call back into the queue
+    Promise.resolve()
+      .then(() => this.runner(started, controller.signal))
+      .then(() => {
+        this.consecutiveRateLimits = 0;
+        this.finish(item.id, { status: 'completed' });
+      })
+      .catch(error => {
+        if (controller.signal.aborted) {
+          this.finish(item.id, { status: 'cancelled' });
+        } else if (isRateLimitError(error)) {
+          this.rateLimited(item.id);
+        } else {
+          this.finish(item.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+      });
+  }
+
+  private finish(itemId: string, changes: Partial<QueueItem>) {
+    this.controllers.delete(itemId);
+    const item = this.items.find(i => i.id === itemId);
+    // A cancelled item stays cancelled whatever its runner settled with
+    if (!item || item.status !== 'running') {
+      this.update();
+      return;
+    }
+    this.patch(itemId, changes);
+  }
+
+  // Put the item back at the front and pause starts until the backoff elapses
+  private rateLimited(itemId: string) {
+    this.controllers.delete(itemId);
+    const item = this.items.find(i => i.id === itemId);
+    if (item && item.status === 'running') {
+      this.items = [{ ...item, status: 'queued' }, ...this.items.filter(i => i.id !== itemId)];
+    }
+    const delayMs = Math.min(this.rateLimitBackoffMs * 2 ** this.consecutiveRateLimits, this.maxRateLimitBackoffMs);
+    this.consecutiveRateLimits++;
+    this.clearRateLimit();
+    this.rateLimitedUntil = Date.now() + delayMs;
+    this.rateLimitTimer = setTimeout(() => {
+      this.rateLimitTimer = null;
+      this.rateLimitedUntil = null;
+      this.update();
+    }, delayMs);
+    this.update();
+  }
+
+  private clearRateLimit() {
+    if (this.rateLimitTimer) clearTimeout(this.rateLimitTimer);
+    this.rateLimitTimer = null;
+    this.rateLimitedUntil = null;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Local Generation History
+ *
+ * IndexedDB-backed store for generation jobs. The server history only knows
+ * prompts and images, so jobs are kept locally with everything the app adds:
+ * enhanced prompts, Auto's decision trace, reference settings, the exact
+ * request sent and error details. Jobs still running when the page closed are
+ * stored with their generation ID so polling can resume after a reload.
+ *
+ * mergeHistory combines local jobs with the server history by generation ID.
+ */
+
+import { settle, openDatabase } from './indexedDb';
+
+const DB_NAME = 'leonardo-generation-history';
+const DB_VERSION = 1;
+const JOBS_STORE = 'jobs';
+
+export const MAX_STORED_JOBS = 500;
+
+// The fields the store and merge rely on; records are otherwise stored as-is
+export interface StoredJob {
+  id: string;
+  timestamp: number;
+  generationId?: string; // Leonardo generation or variation ID once submitted
+}
+
+export class GenerationHistoryStore<T extends StoredJob> {
+  private readonly dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(this.dbName, DB_VERSION, (db) => {
+        const store = db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('generationId', 'generationId');
+      });
+      // Allow a later call to retry if opening failed (e.g. blocked by private browsing)
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+    const db = await this.open();
+    return settle(run(db.transaction(JOBS_STORE, mode).objectStore(JOBS_STORE)));
+  }
+
+  // All stored jobs, newest first
+  async getAll(): Promise<T[]> {
+    const jobs = await this.transaction('readonly', store => store.getAll() as IDBRequest<T[]>);
+    return jobs.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async put(job: T): Promise<void> {
+    await this.transaction('readwrite', store => store.put(job));
+  }
+
+  async delete(jobId: string): Promise<void> {
+    await this.transaction('readwrite', store => store.delete(jobId));
+  }
+
+  async clear(): Promise<void> {
+    await this.transaction('readwrite', store => store.clear());
+  }
+
+  // Drop the oldest jobs beyond maxJobs
+  async prune(maxJobs: number = MAX_STORED_JOBS): Promise<void> {
+    const jobs = await this.getAll();
+    await Promise.all(jobs.slice(maxJobs).map(job => this.delete(job.id)));
+  }
+}
+
+// Merge local jobs with server history, newest first. A server generation that is
+// also known locally is dropped, since the local job carries the full metadata.
+export const mergeHistory = <T extends StoredJob>(localJobs: T[], serverJobs: T[]): T[] => {
+  const localGenerationIds = new Set(localJobs.map(job => job.generationId).filter(Boolean));
+  const serverOnly = serverJobs.filter(job => !localGenerationIds.has(job.generationId || job.id));
+  return [...localJobs, ...serverOnly].sort((a, b) => b.timestamp - a.timestamp);
+};
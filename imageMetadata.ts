@@ -0,0 +1,256 @@
+/**
+ * Generation Recipe Metadata
+ *
+ * Embeds the recipe an image was generated from into the file itself, so it
+ * survives downloads and can be read back to reproduce the image:
+ * - PNG: an iTXt chunk holding the recipe as JSON, plus the prompt as the
+ *   standard Description and a Software tEXt chunk for other tools
+ * - JPEG: an XMP packet (APP1) with the JSON recipe and dc:description
+ *
+ * Other formats (e.g. videos), and JPEGs whose recipe is too large for one
+ * XMP segment, are returned unchanged.
+ */
+
+import { crc32 } from './zipArchive';
+
+export const RECIPE_VERSION = 1;
+
+export interface GenerationRecipe {
+  version: number;
+  prompt: string;
+  enhancedPrompt?: string;
+  model: string; // As picked in the form, e.g. 'Auto'
+  actualModel?: string; // The model Auto chose
+  modelId?: string; // Leonardo model ID (or video model name) sent to the API
+  seed?: number;
+  presetStyle?: string;
+  contrast?: number;
+  aspectRatio?: string;
+  guidance?: { type: string; strength?: string; weight?: number; count: number }; // Reference image guidance
+  autoDecision?: {
+    selectedModel: string;
+    recommendation: string;
+    guidanceType?: string;
+    topScores: { name: string; total: number }[];
+  };
+}
+
+const RECIPE_KEYWORD = 'LeonardoRecipe';
+const SOFTWARE = 'Leonardo.ai Auto Model';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_NAMESPACE = 'urn:leonardo-auto-model:recipe:1';
+const MAX_JPEG_SEGMENT = 0xFFFF - 2;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const startsWith = (data: Uint8Array, bytes: number[]): boolean => bytes.every((byte, i) => data[i] === byte);
+
+export const isPng = (data: Uint8Array): boolean => startsWith(data, PNG_SIGNATURE);
+export const isJpeg = (data: Uint8Array): boolean => startsWith(data, [0xFF, 0xD8, 0xFF]);
+
+// Accept only objects that look like a recipe; files can carry anything
+const parseRecipe = (json: string): GenerationRecipe | null => {
+  try {
+    const recipe = JSON.parse(json);
+    if (recipe && typeof recipe === 'object' && typeof recipe.prompt === 'string' && typeof recipe.model === 'string') {
+      return recipe as GenerationRecipe;
+    }
+  } catch {
+    // Not JSON; treat as no recipe
+  }
+  return null;
+};
+
+// PNG
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readPngChunks = (data: Uint8Array): PngChunk[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= data.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: data.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const writePngChunk = ({ type, data }: PngChunk): Uint8Array => {
+  const typeBytes = encoder.encode(type);
+  const header = new DataView(new ArrayBuffer(8));
+  header.setUint32(0, data.length);
+  new Uint8Array(header.buffer).set(typeBytes, 4);
+  const trailer = new DataView(new ArrayBuffer(4));
+  trailer.setUint32(0, crc32(concat([typeBytes, data])));
+  return concat([new Uint8Array(header.buffer), data, new Uint8Array(trailer.buffer)]);
+};
+
+// Uncompressed iTXt: keyword, null, compression flag and method, empty language and translated keyword
+const itxtChunk = (keyword: string, text: string): PngChunk => ({
+  type: 'iTXt',
+  data: concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]),
+});
+
+// tEXt is Latin-1; only used for ASCII values
+const textChunk = (keyword: string, text: string): PngChunk => ({
+  type: 'tEXt',
+  data: concat([encoder.encode(keyword), new Uint8Array([0]), encoder.encode(text)]),
+});
+
+const chunkKeyword = (chunk: PngChunk): string => {
+  const end = chunk.data.indexOf(0);
+  return decoder.decode(chunk.data.subarray(0, end === -1 ? chunk.data.length : end));
+};
+
+const readPngText = (chunk: PngChunk): string | null => {
+  const keywordEnd = chunk.data.indexOf(0);
+  if (keywordEnd === -1) return null;
+  if (chunk.type === 'tEXt') {
+    return String.fromCharCode(...chunk.data.subarray(keywordEnd + 1));
+  }
+  // iTXt: skip the flags, then the language tag and translated keyword
+  if (chunk.data[keywordEnd + 1] !== 0) return null; // compressed text is not written by us
+  let offset = keywordEnd + 3;
+  for (let i = 0; i < 2; i++) {
+    const end = chunk.data.indexOf(0, offset);
+    if (end === -1) return null;
+    offset = end + 1;
+  }
+  return decoder.decode(chunk.data.subarray(offset));
+};
+
+const OWN_PNG_KEYWORDS = [RECIPE_KEYWORD, 'Description', 'Software'];
+
+const embedPng = (data: Uint8Array, recipe: GenerationRecipe): Uint8Array => {
+  const chunks = readPngChunks(data)
+    .filter(chunk => !((chunk.type === 'iTXt' || chunk.type === 'tEXt') && OWN_PNG_KEYWORDS.includes(chunkKeyword(chunk))));
+  const metadata = [
+    itxtChunk(RECIPE_KEYWORD, JSON.stringify(recipe)),
+    itxtChunk('Description', recipe.enhancedPrompt || recipe.prompt),
+    textChunk('Software', SOFTWARE),
+  ];
+  // Text chunks may go anywhere after IHDR, which is always first
+  const [ihdr, ...rest] = chunks;
+  return concat([new Uint8Array(PNG_SIGNATURE), ...[ihdr, ...metadata, ...rest].map(writePngChunk)]);
+};
+
+const readPngRecipe = (data: Uint8Array): GenerationRecipe | null => {
+  const chunk = readPngChunks(data)
+    .find(c => (c.type === 'iTXt' || c.type === 'tEXt') && chunkKeyword(c) === RECIPE_KEYWORD);
+  const text = chunk && readPngText(chunk);
+  return text ? parseRecipe(text) : null;
+};
+
+// JPEG
+
+interface JpegSegment {
+  marker: number;
+  data: Uint8Array; // Payload without marker and length
+}
+
+// Segments before the scan data; returns the offset where the rest of the file starts
+const readJpegSegments = (data: Uint8Array): { segments: JpegSegment[]; rest: number } => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xFF) {
+    const marker = data[offset + 1];
+    if (marker === 0xDA) break; // Start of scan: image data follows
+    const length = view.getUint16(offset + 2);
+    segments.push({ marker, data: data.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return { segments, rest: offset };
+};
+
+const writeJpegSegment = ({ marker, data }: JpegSegment): Uint8Array => {
+  const header = new DataView(new ArrayBuffer(4));
+  header.setUint8(0, 0xFF);
+  header.setUint8(1, marker);
+  header.setUint16(2, data.length + 2);
+  return concat([new Uint8Array(header.buffer), data]);
+};
+
+const isXmpSegment = (segment: JpegSegment): boolean => {
+  return segment.marker === 0xE1 && decoder.decode(segment.data.subarray(0, XMP_HEADER.length)) === XMP_HEADER;
+};
+
+const escapeXml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+const unescapeXml = (text: string): string => {
+  return text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+};
+
+const buildXmp = (recipe: GenerationRecipe): string => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:leonardo="${XMP_NAMESPACE}">
+      <xmp:CreatorTool>${SOFTWARE}</xmp:CreatorTool>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(recipe.enhancedPrompt || recipe.prompt)}</rdf:li></rdf:Alt></dc:description>
+      <leonardo:recipe>${escapeXml(JSON.stringify(recipe))}</leonardo:recipe>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const embedJpeg = (data: Uint8Array, recipe: GenerationRecipe): Uint8Array => {
+  const xmp = encoder.encode(XMP_HEADER + buildXmp(recipe));
+  // An XMP packet must fit one APP1 segment; rather than fail the export, keep the image as it is
+  if (xmp.length > MAX_JPEG_SEGMENT) {
+    console.warn('Recipe is too large to embed as JPEG XMP; exporting the image without it.');
+    return data;
+  }
+  const { segments, rest } = readJpegSegments(data);
+  const kept = segments.filter(segment => !isXmpSegment(segment));
+  // XMP goes after the JFIF/Exif headers, which readers expect first
+  const insertAt = kept.findIndex(segment => segment.marker !== 0xE0 && segment.marker !== 0xE1);
+  const position = insertAt === -1 ? kept.length : insertAt;
+  const ordered = [...kept.slice(0, position), { marker: 0xE1, data: xmp }, ...kept.slice(position)];
+  return concat([new Uint8Array([0xFF, 0xD8]), ...ordered.map(writeJpegSegment), data.subarray(rest)]);
+};
+
+const readJpegRecipe = (data: Uint8Array): GenerationRecipe | null => {
+  const segment = readJpegSegments(data).segments.find(isXmpSegment);
+  if (!segment) return null;
+  const match = decoder.decode(segment.data).match(/<leonardo:recipe>([\s\S]*?)<\/leonardo:recipe>/);
+  return match ? parseRecipe(unescapeXml(match[1])) : null;
+};
+
+// Public API
+
+export const embedRecipe = (data: Uint8Array, recipe: GenerationRecipe): Uint8Array => {
+  if (isPng(data)) return embedPng(data, recipe);
+  if (isJpeg(data)) return embedJpeg(data, recipe);
+  return data;
+};
+
+export const readRecipe = (data: Uint8Array): GenerationRecipe | null => {
+  if (isPng(data)) return readPngRecipe(data);
+  if (isJpeg(data)) return readJpegRecipe(data);
+  return null;
+};
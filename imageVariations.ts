@@ -0,0 +1,103 @@
+/**
+ * Image Variations
+ *
+ * Post-generation operations on an existing image (API Guide §5):
+ * - Universal Upscaler (§5.1.2)
+ * - Unzoom (§5.2)
+ * - Background removal (§5.3)
+ *
+ * startVariation starts the job for a source MediaItem and waitForVariation
+ * polls it to completion, returning the result as a MediaItem linked to its
+ * parent so variations can be chained (e.g. upscale, then remove the
+ * background). They are separate so callers can record the variation ID in
+ * between.
+ */
+
+import { LeonardoClient, RequestOptions, UniversalUpscalerRequest } from './leonardoClient';
+import { pollVariation, PollOptions } from './generationPoller';
+import { MediaItem, DerivedMediaKind } from './types';
+
+export type VariationKind = Exclude<DerivedMediaKind, 'motion'>;
+
+export const VARIATION_KINDS: VariationKind[] = ['upscale', 'unzoom', 'nobg'];
+
+export const VARIATION_LABELS: Record<VariationKind, string> = {
+  upscale: 'Upscale',
+  unzoom: 'Unzoom',
+  nobg: 'Remove Background',
+};
+
+export const VARIATION_DESCRIPTIONS: Record<VariationKind, string> = {
+  upscale: 'Increase resolution with the Universal Upscaler',
+  unzoom: 'Expand the canvas and fill in the surroundings',
+  nobg: 'Cut out the subject onto a transparent background',
+};
+
+// Legacy-mode upscale settings used when the caller does not override them
+export const DEFAULT_UPSCALE_SETTINGS: Omit<UniversalUpscalerRequest, 'generatedImageId' | 'initImageId' | 'variationId'> = {
+  upscalerStyle: 'GENERAL',
+  upscaleMultiplier: 1.5,
+  creativityStrength: 3,
+};
+
+export interface VariationOptions extends PollOptions {
+  upscale?: Partial<UniversalUpscalerRequest>;
+  runId?: number; // runId of the returned MediaItem, defaults to the start time
+}
+
+// The upscaler takes the source ID in a field named after its origin
+const upscaleSource = (source: MediaItem): Pick<UniversalUpscalerRequest, 'generatedImageId' | 'initImageId' | 'variationId'> => {
+  switch (source.sourceType) {
+    case 'init': return { initImageId: source.mediaId };
+    case 'variation': return { variationId: source.mediaId };
+    default: return { generatedImageId: source.mediaId };
+  }
+};
+
+// Start a variation job and return its variation ID
+export const startVariation = async (
+  client: LeonardoClient,
+  kind: VariationKind,
+  source: MediaItem,
+  options: RequestOptions & Pick<VariationOptions, 'upscale'> = {}
+): Promise<string> => {
+  if (source.type !== 'image') {
+    throw new Error(`${VARIATION_LABELS[kind]} only works on images.`);
+  }
+  const { upscale, ...requestOptions } = options;
+  // Chained variations must flag their source, or the API cannot find it
+  const isVariation = source.sourceType === 'variation';
+
+  switch (kind) {
+    case 'upscale':
+      return (await client.createUniversalUpscale({ ...DEFAULT_UPSCALE_SETTINGS, ...upscale, ...upscaleSource(source) }, requestOptions)).universalUpscaler.id;
+    case 'unzoom':
+      return (await client.createUnzoom({ id: source.mediaId, isVariation }, requestOptions)).sdUnzoomJob.id;
+    case 'nobg':
+      return (await client.createNoBackground({ id: source.mediaId, isVariation }, requestOptions)).sdNobgJob.id;
+  }
+};
+
+// Wait for a started variation and return it as a MediaItem linked to its source;
+// throws a GenerationFailure like generation polling does
+export const waitForVariation = async (
+  client: LeonardoClient,
+  variationId: string,
+  source: MediaItem,
+  kind: VariationKind,
+  options: Omit<VariationOptions, 'upscale'> = {}
+): Promise<MediaItem> => {
+  const { runId = Date.now(), ...pollOptions } = options;
+  const variation = await pollVariation(client, variationId, pollOptions);
+
+  return {
+    mediaId: variation.id,
+    url: variation.url!,
+    type: 'image',
+    sourceType: 'variation',
+    timestamp: variation.createdAt ? new Date(variation.createdAt).getTime() : Date.now(),
+    runId,
+    parentMediaId: source.mediaId,
+    derivedBy: kind,
+  };
+};
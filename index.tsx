@@ -3,6 +3,10 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './leonardo.css';
 import App from './App';
+import { reportModelRegistryIssues } from './modelConfig';
+
+// Surface model registry inconsistencies before anything relies on it
+reportModelRegistryIssues();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
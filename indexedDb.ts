@@ -0,0 +1,23 @@
+/**
+ * IndexedDB Helpers
+ *
+ * Promise wrappers shared by the local stores (generation history, curation).
+ */
+
+// Resolve an IDBRequest as a promise
+export const settle = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Open a database, creating or migrating its object stores in upgrade()
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase, oldVersion: number) => void): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,438 @@
+/**
+ * Leonardo.ai REST Client
+ *
+ * Typed wrapper around the Leonardo.ai REST endpoints used by the app:
+ * - /me and /generations/user/{id} for generation history
+ * - /upload-init-image, /init-image and the presigned S3 upload for reference images
+ * - POST /generations and GET /generations/{id} for image generation
+ * - POST /generations-text-to-video for video generation
+ * - POST /generations-motion-svd for animating an existing image
+ * - POST /variations/* and GET /variations/{id} for upscale, unzoom and background removal
+ * - POST /prompt/improve for standalone prompt improvement
+ *
+ * Has no React or DOM dependencies beyond fetch/FormData, so the UI and any
+ * headless tooling can share it. Waiting for a job to finish lives in
+ * generationPoller.ts. Request building is exposed via buildRequest
+ * so it can be checked without making network calls.
+ */
+
+export const LEONARDO_API_BASE_URL = 'https://cloud.leonardo.ai/api/rest/v1';
+// Default address of the offline mock in server/mockLeonardoServer.mjs
+export const MOCK_API_BASE_URL = 'http://localhost:8788/api/rest/v1';
+
+// --- REQUEST / RESPONSE MODELS ---
+
+export type GenerationStatus = 'PENDING' | 'PROCESSING' | 'COMPLETE' | 'FAILED';
+
+export interface GeneratedImage {
+  id: string;
+  url: string;
+  nsfw?: boolean;
+  likeCount?: number;
+  motionMP4URL?: string | null;
+}
+
+export interface Generation {
+  id: string;
+  status: GenerationStatus;
+  prompt?: string;
+  modelId?: string | null;
+  createdAt?: string;
+  imageHeight?: number;
+  imageWidth?: number;
+  seed?: number | null;
+  presetStyle?: string | null;
+  generated_images: GeneratedImage[];
+}
+
+export interface ContextImage {
+  type: 'UPLOADED' | 'GENERATED';
+  id: string;
+}
+
+export interface Controlnet {
+  initImageId: string;
+  initImageType: 'UPLOADED' | 'GENERATED';
+  preprocessorId: number;
+  strengthType?: string;
+  weight?: number;
+}
+
+export interface CreateGenerationRequest {
+  prompt: string;
+  modelId: string | null;
+  num_images?: number;
+  width?: number;
+  height?: number;
+  seed?: number | null;
+  negative_prompt?: string;
+  presetStyle?: string;
+  alchemy?: boolean;
+  contrast?: number;
+  promptEnhance?: boolean;
+  contextImages?: ContextImage[];
+  controlnets?: Controlnet[];
+}
+
+export type TextToVideoModel = 'MOTION2' | 'VEO3';
+
+export interface CreateTextToVideoRequest {
+  prompt: string;
+  negativePrompt?: string;
+  model?: TextToVideoModel;
+  resolution?: string;
+  width?: number;
+  height?: number;
+  frameInterpolation?: boolean;
+  promptEnhance?: boolean;
+  styleIds?: string[];
+}
+
+// Video jobs report completion through GET /generations/{id} like image jobs
+export interface CreateMotionGenerationResponse {
+  motionVideoGenerationJob: {
+    generationId: string;
+    apiCreditCost?: number;
+  };
+}
+
+// imageId is a generated image unless isInitImage or isVariation says otherwise
+export interface CreateMotionSvdRequest {
+  imageId: string;
+  motionStrength?: number; // 1 (subtle) to 10 (dramatic)
+  isPublic?: boolean;
+  isInitImage?: boolean;
+  isVariation?: boolean;
+}
+
+export interface CreateMotionSvdResponse {
+  motionSvdGenerationJob: {
+    generationId: string;
+    apiCreditCost?: number;
+  };
+}
+
+// --- VARIATIONS ---
+
+export type UpscalerStyle = 'GENERAL' | 'CINEMATIC' | '2D ART & ILLUSTRATION' | 'CG ART & GAME ASSETS';
+
+// Exactly one of generatedImageId, initImageId or variationId identifies the source.
+// Setting ultraUpscaleStyle selects Ultra mode, otherwise Legacy mode is used.
+export interface UniversalUpscalerRequest {
+  generatedImageId?: string;
+  initImageId?: string;
+  variationId?: string;
+  upscalerStyle?: UpscalerStyle;
+  ultraUpscaleStyle?: 'ARTISTIC' | 'REALISTIC';
+  upscaleMultiplier?: number; // 1.0 to 2.0
+  creativityStrength?: number; // 1 to 10
+  detailContrast?: number; // 1 to 10, Ultra only
+  similarity?: number; // 1 to 10, Ultra only
+  prompt?: string;
+}
+
+// Unzoom and background removal; isVariation must be set when id is itself a variation
+export interface VariationRequest {
+  id: string;
+  isVariation?: boolean;
+}
+
+interface VariationJob {
+  id: string;
+  apiCreditCost?: number;
+}
+
+export interface UniversalUpscalerResponse {
+  universalUpscaler: VariationJob;
+}
+
+export interface UnzoomResponse {
+  sdUnzoomJob: VariationJob;
+}
+
+export interface NoBackgroundResponse {
+  sdNobgJob: VariationJob;
+}
+
+export interface ImageVariation {
+  id: string;
+  status: GenerationStatus;
+  url?: string | null;
+  transformType?: string;
+  createdAt?: string;
+}
+
+export interface GetVariationResponse {
+  generated_image_variation_generic: ImageVariation[];
+}
+
+export interface CreateGenerationResponse {
+  sdGenerationJob: {
+    generationId: string;
+    apiCreditCost?: number;
+  };
+}
+
+export interface GetGenerationResponse {
+  generations_by_pk: Generation | null;
+}
+
+export interface UserGenerationsResponse {
+  generations: Generation[];
+}
+
+export interface UploadInitImageByUrlResponse {
+  uploadInitImageByUrl: {
+    id: string;
+  };
+}
+
+export interface InitImageUploadResponse {
+  uploadInitImage: {
+    id: string;
+    url: string;
+    fields: string; // JSON-encoded form fields for the presigned S3 upload
+    key?: string;
+  };
+}
+
+export interface ImprovePromptResponse {
+  promptGeneration: {
+    prompt: string;
+    apiCreditCost?: number;
+  };
+}
+
+// GET /me; the user ID has moved between shapes over time, so each known location is optional
+export interface UserInfo {
+  user_details?: { user?: { id?: string; username?: string } }[] | { id?: string };
+  user?: { id?: string };
+  id?: string;
+  userId?: string;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface LeonardoClientOptions {
+  apiKey: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+// Error raised for any non-OK response; carries the HTTP status and raw response body
+export class LeonardoApiError extends Error {
+  readonly status: number;
+  readonly body: string;
+  readonly endpoint: string;
+
+  constructor(endpoint: string, status: number, body: string) {
+    super(`Leonardo API error ${status} on ${endpoint}: ${body}`);
+    this.name = 'LeonardoApiError';
+    this.endpoint = endpoint;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Raised when fetch itself fails, so the request got no response at all (offline, DNS, CORS)
+export class LeonardoNetworkError extends Error {
+  readonly endpoint: string;
+
+  constructor(endpoint: string, cause: unknown) {
+    super(`Network error on ${endpoint}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'LeonardoNetworkError';
+    this.endpoint = endpoint;
+  }
+}
+
+export class LeonardoClient {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor({ apiKey, baseUrl = LEONARDO_API_BASE_URL, fetch: fetchImpl }: LeonardoClientOptions) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    // Bind so the global fetch keeps its `this` when called as a method
+    this.fetchImpl = fetchImpl || fetch.bind(globalThis);
+  }
+
+  // Build the URL and fetch options for an API call without sending it
+  buildRequest(method: 'GET' | 'POST' | 'DELETE', path: string, body?: unknown): { url: string; init: RequestInit } {
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${this.apiKey}`,
+      'accept': 'application/json'
+    };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    return {
+      url: `${this.baseUrl}${path}`,
+      init: {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      }
+    };
+  }
+
+  // fetch rejects with a TypeError when no response arrives; aborts and other errors pass through
+  private async send(endpoint: string, url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await this.fetchImpl(url, init);
+    } catch (error) {
+      throw error instanceof TypeError ? new LeonardoNetworkError(endpoint, error) : error;
+    }
+  }
+
+  private async request<T>(method: 'GET' | 'POST' | 'DELETE', path: string, body?: unknown, options: RequestOptions = {}): Promise<T> {
+    const { url, init } = this.buildRequest(method, path, body);
+    const response = await this.send(`${method} ${path}`, url, { ...init, signal: options.signal });
+    if (!response.ok) {
+      throw new LeonardoApiError(`${method} ${path}`, response.status, await response.text());
+    }
+    return response.json() as Promise<T>;
+  }
+
+  // --- USER & HISTORY ---
+
+  async getMe(): Promise<UserInfo> {
+    return this.request<UserInfo>('GET', '/me');
+  }
+
+  // The /me payload has changed shape over time, so check every known location of the user ID
+  async getUserId(): Promise<string | null> {
+    const userData = await this.getMe();
+    const details = userData?.user_details;
+    const detailsId = Array.isArray(details) ? details[0]?.user?.id : details?.id;
+    return detailsId || userData?.id || userData?.user?.id || userData?.userId || null;
+  }
+
+  async getUserGenerations(userId: string, offset: number = 0, limit: number = 10): Promise<UserGenerationsResponse> {
+    const data = await this.request<any>('GET', `/generations/user/${userId}?offset=${offset}&limit=${limit}`);
+    return { generations: data.generations || data.data || data.items || [] };
+  }
+
+  // --- INIT IMAGE UPLOADS ---
+
+  // Single-step upload from a data URL
+  async uploadInitImageByUrl(extension: string, imageDataUrl: string): Promise<UploadInitImageByUrlResponse> {
+    return this.request<UploadInitImageByUrlResponse>('POST', '/upload-init-image', { extension, imageDataUrl });
+  }
+
+  // Step one of the two-step upload: request a presigned S3 form
+  async requestInitImageUpload(extension: string): Promise<InitImageUploadResponse> {
+    return this.request<InitImageUploadResponse>('POST', '/init-image', { extension });
+  }
+
+  // Step two of the two-step upload: post the file to the presigned S3 form.
+  // S3 does not send CORS headers, so the upload is made in no-cors mode and an opaque response counts as success.
+  async uploadToPresignedUrl(uploadUrl: string, fieldsJson: string, file: Blob): Promise<void> {
+    let fields: Record<string, string>;
+    try {
+      fields = JSON.parse(fieldsJson);
+    } catch (error) {
+      throw new Error('Invalid fields format in Leonardo API response');
+    }
+
+    const formData = new FormData();
+    Object.entries(fields).forEach(([key, value]) => {
+      formData.append(key, value);
+    });
+    formData.append('file', file);
+
+    const uploadResponse = await this.send('POST presigned upload', uploadUrl, {
+      method: 'POST',
+      body: formData,
+      mode: 'no-cors',
+    });
+
+    if (uploadResponse.type !== 'opaque' && !uploadResponse.ok) {
+      throw new LeonardoApiError('POST presigned upload', uploadResponse.status, await uploadResponse.text());
+    }
+  }
+
+  // Upload an image via the two-step presigned URL flow and return its init image ID
+  async uploadInitImage(file: Blob, extension: string): Promise<string> {
+    const { uploadInitImage } = await this.requestInitImageUpload(extension);
+    if (!uploadInitImage?.id || !uploadInitImage.url || !uploadInitImage.fields) {
+      throw new Error('Missing required fields in Leonardo API response');
+    }
+    await this.uploadToPresignedUrl(uploadInitImage.url, uploadInitImage.fields, file);
+    return uploadInitImage.id;
+  }
+
+  // --- GENERATIONS ---
+
+  async createGeneration(request: CreateGenerationRequest, options?: RequestOptions): Promise<CreateGenerationResponse> {
+    const response = await this.request<CreateGenerationResponse>('POST', '/generations', request, options);
+    if (!response?.sdGenerationJob?.generationId) {
+      throw new Error(`API response malformed. Response: ${JSON.stringify(response)}`);
+    }
+    return response;
+  }
+
+  async createTextToVideoGeneration(request: CreateTextToVideoRequest, options?: RequestOptions): Promise<CreateMotionGenerationResponse> {
+    const response = await this.request<CreateMotionGenerationResponse>('POST', '/generations-text-to-video', request, options);
+    if (!response?.motionVideoGenerationJob?.generationId) {
+      throw new Error(`API response malformed. Response: ${JSON.stringify(response)}`);
+    }
+    return response;
+  }
+
+  async createMotionSvdGeneration(request: CreateMotionSvdRequest, options?: RequestOptions): Promise<CreateMotionSvdResponse> {
+    const response = await this.request<CreateMotionSvdResponse>('POST', '/generations-motion-svd', request, options);
+    if (!response?.motionSvdGenerationJob?.generationId) {
+      throw new Error(`API response malformed. Response: ${JSON.stringify(response)}`);
+    }
+    return response;
+  }
+
+  async getGeneration(generationId: string, options?: RequestOptions): Promise<GetGenerationResponse> {
+    return this.request<GetGenerationResponse>('GET', `/generations/${generationId}`, undefined, options);
+  }
+
+  // --- VARIATIONS ---
+
+  async createUniversalUpscale(request: UniversalUpscalerRequest, options?: RequestOptions): Promise<UniversalUpscalerResponse> {
+    const response = await this.request<UniversalUpscalerResponse>('POST', '/variations/universal-upscaler', request, options);
+    if (!response?.universalUpscaler?.id) {
+      throw new Error(`API response malformed. Response: ${JSON.stringify(response)}`);
+    }
+    return response;
+  }
+
+  async createUnzoom(request: VariationRequest, options?: RequestOptions): Promise<UnzoomResponse> {
+    const response = await this.request<UnzoomResponse>('POST', '/variations/unzoom', request, options);
+    if (!response?.sdUnzoomJob?.id) {
+      throw new Error(`API response malformed. Response: ${JSON.stringify(response)}`);
+    }
+    return response;
+  }
+
+  async createNoBackground(request: VariationRequest, options?: RequestOptions): Promise<NoBackgroundResponse> {
+    const response = await this.request<NoBackgroundResponse>('POST', '/variations/nobg', request, options);
+    if (!response?.sdNobgJob?.id) {
+      throw new Error(`API response malformed. Response: ${JSON.stringify(response)}`);
+    }
+    return response;
+  }
+
+  async getVariation(variationId: string, options?: RequestOptions): Promise<GetVariationResponse> {
+    const data = await this.request<any>('GET', `/variations/${variationId}`, undefined, options);
+    return { generated_image_variation_generic: data?.generated_image_variation_generic || [] };
+  }
+
+  // --- PROMPTS ---
+
+  // Expand a short prompt, or edit it following promptInstructions when given
+  async improvePrompt(prompt: string, promptInstructions?: string): Promise<ImprovePromptResponse> {
+    const response = await this.request<ImprovePromptResponse>('POST', '/prompt/improve', promptInstructions ? { prompt, promptInstructions } : { prompt });
+    if (typeof response?.promptGeneration?.prompt !== 'string') {
+      throw new Error(`API response malformed. Response: ${JSON.stringify(response)}`);
+    }
+    return response;
+  }
+}
@@ -26,15 +26,131 @@ export const CONTRAST_VALUES = [1.0, 1.3, 1.8, 2.5, 3.0, 3.5, 4.5];
 // Available video resolutions
 export const VIDEO_RESOLUTIONS = ['RESOLUTION_480', 'RESOLUTION_720'];
 
+// Landscape video dimensions for each resolution; portrait aspect ratios swap them
+export const VIDEO_RESOLUTION_DIMENSIONS: { [key: string]: { width: number; height: number; } } = {
+    'RESOLUTION_480': { width: 832, height: 480 },
+    'RESOLUTION_720': { width: 1280, height: 720 },
+};
+
+// Aspect ratios video models render: landscape or its portrait flip
+export const VIDEO_ASPECT_RATIOS = ['16:9', '9:16'];
+
+
+// --- MODEL CONFIGURATION TYPES ---
+
+// Node types a model can serve; each has its own config shape
+export const MODEL_NODE_TYPES = ['image-generation', 'image-edit', 'text-to-video', 'image-to-video'] as const;
+export type ModelNodeType = typeof MODEL_NODE_TYPES[number];
+
+export type ModelFamily = 'AUTO' | 'FLUX' | 'PHOENIX' | 'SDXL' | 'VISION' | 'CUSTOM' | 'MOTION' | 'VEO';
+
+// Guidance types an image model can accept
+export const GUIDANCE_NAMES = ['Context Images', 'Style Reference', 'Content Reference', 'Character Reference'] as const;
+export type GuidanceName = typeof GUIDANCE_NAMES[number];
+
+export interface GuidanceSupport {
+    maxInputs: number;
+    preprocessorId?: number; // Controlnet preprocessor; required unless apiFormat is 'contextImages'
+    apiFormat?: 'contextImages';
+}
+
+// How Auto mode weighs a model (see autoModelLogic.ts)
+export interface AutoSelectionProfile {
+    rank: number;
+    textRendering: 'none' | 'short' | 'long';
+    strongStyles: string[];
+}
+
+export interface ImageModelSupports {
+    alchemy?: boolean;
+    contrast?: boolean;
+    aspectRatios: string[];
+    guidance: Partial<Record<GuidanceName, GuidanceSupport>>;
+    guidanceWeight?: boolean;
+    promptEnhance?: boolean;
+}
+
+interface BaseModelConfig {
+    id: string | null;
+    family: ModelFamily;
+}
+
+export interface ImageGenerationModelConfig extends BaseModelConfig {
+    nodeType: 'image-generation';
+    supports: ImageModelSupports;
+    autoSelection?: AutoSelectionProfile;
+    defaults: {
+        style?: string;
+        contrast?: number;
+        numImages?: number;
+    };
+}
+
+export interface ImageEditModelConfig extends BaseModelConfig {
+    nodeType: 'image-edit';
+    supports: ImageModelSupports;
+    autoSelection?: AutoSelectionProfile;
+    defaults: {
+        strength?: number;
+    };
+}
+
+export interface TextToVideoModelConfig extends BaseModelConfig {
+    nodeType: 'text-to-video';
+    supports: {
+        resolutions: string[];
+        frameInterpolation?: boolean;
+        promptEnhance?: boolean;
+    };
+    defaults: {
+        resolution: string;
+        frameInterpolation: boolean;
+        promptEnhance: boolean;
+    };
+}
+
+export interface ImageToVideoModelConfig extends BaseModelConfig {
+    nodeType: 'image-to-video';
+    supports: {
+        motionStrength?: boolean;
+    };
+    defaults: {
+        motionStrength?: number;
+    };
+}
+
+// Type definition for a single model config entry
+export type ModelConfigEntry = ImageGenerationModelConfig | ImageEditModelConfig | TextToVideoModelConfig | ImageToVideoModelConfig;
+export type ImageModelConfig = ImageGenerationModelConfig | ImageEditModelConfig;
+export type ModelFeature = 'alchemy' | 'contrast' | 'frameInterpolation' | 'promptEnhance' | 'guidanceWeight' | 'motionStrength';
+
+// Every defaults field any model type can carry
+export type ModelDefaults = Partial<
+    ImageGenerationModelConfig['defaults'] &
+    ImageEditModelConfig['defaults'] &
+    TextToVideoModelConfig['defaults'] &
+    ImageToVideoModelConfig['defaults']
+>;
+
+export const isImageModelConfig = (config: ModelConfigEntry | null | undefined): config is ImageModelConfig => {
+    return config?.nodeType === 'image-generation' || config?.nodeType === 'image-edit';
+};
+
 
 // --- MODEL-SPECIFIC CONFIGURATIONS ---
 
 // Defines the detailed configuration for each available model.
-export const MODEL_CONFIG: Record<string, any> = {
+// This is the single registry of model facts: the generator, the auto model
+// selection logic and the node canvas all derive from it.
+//
+// - supports.guidance: guidance types with their preprocessor IDs and input limits
+// - supports.guidanceWeight: whether controlnets accept a weight in addition to strengthType
+// - autoSelection: present only on models that Auto mode may choose between
+export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
     // --- AUTO Model ---
     "Auto": {
         id: "auto-select",
-        nodeType: 'image-generation' as const,
+        nodeType: 'image-generation',
         family: 'AUTO',
         supports: {
             contrast: true,
@@ -61,6 +177,11 @@ export const MODEL_CONFIG: Record<string, any> = {
                 'Context Images': { maxInputs: 6, apiFormat: 'contextImages' }
             }
         },
+        autoSelection: {
+            rank: 4,
+            textRendering: 'short',
+            strongStyles: []
+        },
         defaults: {
             strength: 0.6,
         }
@@ -73,10 +194,16 @@ export const MODEL_CONFIG: Record<string, any> = {
             contrast: true,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
             guidance: {
+                // The request builder sends up to six context images, so auto selection allows six as well
                 'Context Images': { maxInputs: 6, apiFormat: 'contextImages' }
             },
             promptEnhance: true
         },
+        autoSelection: {
+            rank: 2,
+            textRendering: 'short',
+            strongStyles: []
+        },
         defaults: {
             style: 'Dynamic',
             contrast: 1.0,
@@ -90,8 +217,10 @@ export const MODEL_CONFIG: Record<string, any> = {
         supports: {
             contrast: true,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: true,
             guidance: {
-                'Style Reference': { preprocessorId: 299, maxInputs: 4 }
+                'Style Reference': { preprocessorId: 299, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 233, maxInputs: 1 }
             }
         },
         defaults: {
@@ -106,8 +235,10 @@ export const MODEL_CONFIG: Record<string, any> = {
         supports: {
             contrast: true,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: true,
             guidance: {
-                'Style Reference': { preprocessorId: 298, maxInputs: 4 }
+                'Style Reference': { preprocessorId: 298, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 232, maxInputs: 1 }
             }
         },
         defaults: {
@@ -125,11 +256,18 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: true,
             contrast: true,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: false, // Phoenix controlnets only use strengthType
             guidance: {
                 'Style Reference': { preprocessorId: 166, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 364, maxInputs: 1 },
                 'Character Reference': { preprocessorId: 397, maxInputs: 1 }
             }
         },
+        autoSelection: {
+            rank: 3,
+            textRendering: 'long',
+            strongStyles: ['Illustration', 'Render 3d', 'Sketch Color', 'Sketch Bw', 'Anime']
+        },
         defaults: {
             style: 'Dynamic',
             contrast: 2.5, // Required for Alchemy
@@ -143,8 +281,10 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: true,
             contrast: true,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: false, // Phoenix controlnets only use strengthType
             guidance: {
                 'Style Reference': { preprocessorId: 166, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 364, maxInputs: 1 },
                 'Character Reference': { preprocessorId: 397, maxInputs: 1 }
             }
         },
@@ -163,8 +303,10 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 100, maxInputs: 1 },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1 }
             }
         },
@@ -180,8 +322,10 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 100, maxInputs: 1 },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1 }
             }
         },
@@ -197,8 +341,10 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 100, maxInputs: 1 },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1 }
             }
         },
@@ -214,8 +360,10 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: false, // Kino controlnets only use strengthType
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 100, maxInputs: 1 },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1 }
             }
         },
@@ -231,8 +379,10 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: true,
             contrast: false, // Vision uses Alchemy but doesn't have the contrast setting
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 100, maxInputs: 1 },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1 }
             }
         },
@@ -250,8 +400,10 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 100, maxInputs: 1 },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1 }
             }
         },
@@ -267,8 +419,10 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 100, maxInputs: 1 },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1 }
             }
         },
@@ -284,6 +438,7 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: false, // Lucid controlnets only use strengthType
             guidance: {
                 'Style Reference': { preprocessorId: 431, maxInputs: 4 }
             }
@@ -300,10 +455,17 @@ export const MODEL_CONFIG: Record<string, any> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            guidanceWeight: false, // Lucid controlnets only use strengthType
             guidance: {
-                'Style Reference': { preprocessorId: 431, maxInputs: 4 }
+                'Style Reference': { preprocessorId: 431, maxInputs: 4 },
+                'Content Reference': { preprocessorId: 430, maxInputs: 1 }
             }
         },
+        autoSelection: {
+            rank: 1,
+            textRendering: 'short',
+            strongStyles: ['Vibrant', 'Photography', 'Portrait', 'Stock Photo', 'Cinematic']
+        },
         defaults: {
             style: 'Vibrant',
         }
@@ -342,44 +504,272 @@ export const MODEL_CONFIG: Record<string, any> = {
     }
 };
 
-// Type definition for a single model config entry
-export type ModelConfigEntry = typeof MODEL_CONFIG[keyof typeof MODEL_CONFIG];
-
 // Helper functions for accessing model configuration
-export const getModelsForNodeType = (nodeType: 'image-generation' | 'image-edit' | 'text-to-video') => {
-    return Object.keys(MODEL_CONFIG).filter(modelName => {
-        const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
-        return config.nodeType === nodeType;
-    });
+export const getModelsForNodeType = (nodeType: ModelNodeType): string[] => {
+    return Object.keys(MODEL_CONFIG).filter(modelName => MODEL_CONFIG[modelName].nodeType === nodeType);
 };
 
 // Get model ID by name
 export const getModelId = (modelName: string): string | null => {
-    const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
-    return config?.id || null;
+    return MODEL_CONFIG[modelName]?.id || null;
 };
 
 // Get model configuration by name
 export const getModelConfig = (modelName: string): ModelConfigEntry | null => {
-    return MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG] || null;
+    return MODEL_CONFIG[modelName] || null;
 };
 
 // Get guidance support for a model
-export const getModelGuidanceSupport = (modelName: string) => {
-    const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
-    return config?.supports?.guidance || {};
+export const getModelGuidanceSupport = (modelName: string): Partial<Record<GuidanceName, GuidanceSupport>> => {
+    const config = MODEL_CONFIG[modelName];
+    return isImageModelConfig(config) ? config.supports.guidance : {};
 };
 
 // Check if model supports a feature
-export const modelSupports = (modelName: string, feature: 'alchemy' | 'contrast' | 'frameInterpolation' | 'promptEnhance'): boolean => {
-    const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
-    return config?.supports?.[feature] === true;
+export const modelSupports = (modelName: string, feature: ModelFeature): boolean => {
+    const supports: Partial<Record<ModelFeature, unknown>> | undefined = MODEL_CONFIG[modelName]?.supports;
+    return supports?.[feature] === true;
 };
 
 // Get model defaults
-export const getModelDefaults = (modelName: string) => {
-    const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
-    return config?.defaults || {};
+export const getModelDefaults = (modelName: string): ModelDefaults => {
+    return MODEL_CONFIG[modelName]?.defaults || {};
+};
+
+// Pick the guidance type to use for a model: the preferred type if the model supports it,
+// otherwise the model's first supported type (Context Images models always use Context Images)
+export const resolveGuidanceType = (modelName: string, preferredType?: GuidanceName): GuidanceName | undefined => {
+    const guidance = getModelGuidanceSupport(modelName);
+    if (guidance['Context Images']) return 'Context Images';
+    if (preferredType && guidance[preferredType]) return preferredType;
+    return GUIDANCE_NAMES.find(name => guidance[name]);
+};
+
+// Get text-to-video config for a model, or null if it is not a text-to-video model
+export const getTextToVideoConfig = (modelName: string): TextToVideoModelConfig | null => {
+    const config = MODEL_CONFIG[modelName];
+    return config?.nodeType === 'text-to-video' ? config : null;
+};
+
+// Snap an aspect ratio to the video aspect ratio with the same orientation
+export const getVideoAspectRatio = (aspectRatio: string): string => {
+    const ratio = ASPECT_RATIO_DIMENSIONS[aspectRatio];
+    return ratio && ratio.height > ratio.width ? '9:16' : '16:9';
+};
+
+// Video width and height for a resolution, oriented to match the aspect ratio
+export const getVideoDimensions = (resolution: string, aspectRatio: string): { width: number; height: number } => {
+    const { width, height } = VIDEO_RESOLUTION_DIMENSIONS[resolution] || VIDEO_RESOLUTION_DIMENSIONS['RESOLUTION_480'];
+    return getVideoAspectRatio(aspectRatio) === '9:16' ? { width: height, height: width } : { width, height };
+};
+
+// Get the models Auto mode chooses between
+export const getAutoSelectionModels = (): string[] => {
+    return Object.keys(MODEL_CONFIG).filter(modelName => {
+        const config = MODEL_CONFIG[modelName];
+        return isImageModelConfig(config) && config.autoSelection;
+    });
+};
+
+// --- VALIDATION ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Validate the supports/autoSelection/defaults shared by image generation and image edit models
+const validateImageModelFields = (
+    name: string,
+    supports: Record<string, unknown>,
+    defaults: Record<string, unknown>,
+    autoSelection: unknown,
+    errors: string[]
+) => {
+    if (!Array.isArray(supports.aspectRatios)) {
+        errors.push(`${name}: supports.aspectRatios must be an array`);
+    } else {
+        for (const ratio of supports.aspectRatios as unknown[]) {
+            if (typeof ratio !== 'string' || !ASPECT_RATIO_DIMENSIONS[ratio]) {
+                errors.push(`${name}: aspect ratio "${ratio}" is not in ASPECT_RATIO_DIMENSIONS`);
+            }
+        }
+    }
+
+    if (!isRecord(supports.guidance)) {
+        errors.push(`${name}: supports.guidance must be an object`);
+    } else {
+        for (const [guidanceName, guidance] of Object.entries(supports.guidance)) {
+            if (!(GUIDANCE_NAMES as readonly string[]).includes(guidanceName)) {
+                errors.push(`${name}: unknown guidance "${guidanceName}"`);
+                continue;
+            }
+            if (!isRecord(guidance)) {
+                errors.push(`${name}: ${guidanceName} must be an object`);
+                continue;
+            }
+            const { maxInputs } = guidance;
+            if (typeof maxInputs !== 'number' || !Number.isInteger(maxInputs) || maxInputs < 1) {
+                errors.push(`${name}: ${guidanceName} maxInputs must be an integer of at least 1`);
+            }
+            if (guidance.apiFormat !== undefined && guidance.apiFormat !== 'contextImages') {
+                errors.push(`${name}: ${guidanceName} has unknown apiFormat "${guidance.apiFormat}"`);
+            }
+            if (guidance.apiFormat !== 'contextImages' && typeof guidance.preprocessorId !== 'number') {
+                errors.push(`${name}: ${guidanceName} has no preprocessor ID`);
+            }
+        }
+    }
+
+    for (const flag of ['alchemy', 'contrast', 'guidanceWeight', 'promptEnhance']) {
+        if (supports[flag] !== undefined && typeof supports[flag] !== 'boolean') {
+            errors.push(`${name}: supports.${flag} must be a boolean`);
+        }
+    }
+
+    if (autoSelection !== undefined) {
+        if (!isRecord(autoSelection)) {
+            errors.push(`${name}: autoSelection must be an object`);
+        } else {
+            if (typeof autoSelection.rank !== 'number') {
+                errors.push(`${name}: autoSelection.rank must be a number`);
+            }
+            const { textRendering } = autoSelection;
+            if (typeof textRendering !== 'string' || !['none', 'short', 'long'].includes(textRendering)) {
+                errors.push(`${name}: autoSelection.textRendering must be 'none', 'short' or 'long'`);
+            }
+            if (!Array.isArray(autoSelection.strongStyles)) {
+                errors.push(`${name}: autoSelection.strongStyles must be an array`);
+            } else {
+                for (const style of autoSelection.strongStyles as unknown[]) {
+                    if (typeof style !== 'string' || !IMAGE_GEN_STYLES.includes(style)) {
+                        errors.push(`${name}: strong style "${style}" is not a known style`);
+                    }
+                }
+            }
+        }
+    }
+
+    if (defaults.style !== undefined && (typeof defaults.style !== 'string' || !IMAGE_GEN_STYLES.includes(defaults.style))) {
+        errors.push(`${name}: default style "${defaults.style}" is not a known style`);
+    }
+    if (defaults.contrast !== undefined && typeof defaults.contrast !== 'number') {
+        errors.push(`${name}: defaults.contrast must be a number`);
+    }
+    if (defaults.numImages !== undefined && (typeof defaults.numImages !== 'number' || !Number.isInteger(defaults.numImages) || defaults.numImages < 1)) {
+        errors.push(`${name}: defaults.numImages must be an integer of at least 1`);
+    }
+    if (defaults.strength !== undefined && (typeof defaults.strength !== 'number' || defaults.strength < 0 || defaults.strength > 1)) {
+        errors.push(`${name}: defaults.strength must be a number between 0 and 1`);
+    }
+};
+
+// Validate a single model config entry; returns one message per problem found
+export const validateModelConfigEntry = (name: string, entry: unknown): string[] => {
+    const errors: string[] = [];
+
+    if (!isRecord(entry)) {
+        return [`${name}: entry must be an object`];
+    }
+    if (typeof entry.nodeType !== 'string' || !(MODEL_NODE_TYPES as readonly string[]).includes(entry.nodeType)) {
+        return [`${name}: unknown nodeType "${entry.nodeType}"`];
+    }
+    if (entry.id !== null && typeof entry.id !== 'string') {
+        errors.push(`${name}: id must be a string or null`);
+    }
+    if (typeof entry.family !== 'string') {
+        errors.push(`${name}: family must be a string`);
+    }
+    const { supports, defaults } = entry;
+    if (!isRecord(supports)) {
+        errors.push(`${name}: supports must be an object`);
+    }
+    if (!isRecord(defaults)) {
+        errors.push(`${name}: defaults must be an object`);
+    }
+    if (errors.length > 0 || !isRecord(supports) || !isRecord(defaults)) {
+        return errors;
+    }
+
+    switch (entry.nodeType as ModelNodeType) {
+        case 'image-generation':
+        case 'image-edit':
+            validateImageModelFields(name, supports, defaults, entry.autoSelection, errors);
+            break;
+        case 'text-to-video': {
+            const resolutions = supports.resolutions;
+            if (!Array.isArray(resolutions) || resolutions.length === 0) {
+                errors.push(`${name}: supports.resolutions must be a non-empty array`);
+            } else {
+                for (const resolution of resolutions as unknown[]) {
+                    if (typeof resolution !== 'string' || !VIDEO_RESOLUTIONS.includes(resolution)) {
+                        errors.push(`${name}: resolution "${resolution}" is not in VIDEO_RESOLUTIONS`);
+                    }
+                }
+                if (!resolutions.includes(defaults.resolution)) {
+                    errors.push(`${name}: default resolution "${defaults.resolution}" is not supported`);
+                }
+            }
+            if (typeof defaults.frameInterpolation !== 'boolean' || typeof defaults.promptEnhance !== 'boolean') {
+                errors.push(`${name}: defaults.frameInterpolation and defaults.promptEnhance must be booleans`);
+            }
+            break;
+        }
+        case 'image-to-video': {
+            const { motionStrength } = defaults;
+            if (motionStrength !== undefined && (typeof motionStrength !== 'number' || motionStrength < 1 || motionStrength > 10)) {
+                errors.push(`${name}: defaults.motionStrength must be a number between 1 and 10`);
+            }
+            break;
+        }
+    }
+
+    return errors;
+};
+
+// Validate an entry (e.g. parsed from JSON) and return it typed, throwing if it is invalid
+export const parseModelConfigEntry = (name: string, entry: unknown): ModelConfigEntry => {
+    const errors = validateModelConfigEntry(name, entry);
+    if (errors.length > 0) {
+        throw new Error(`Invalid model config:\n${errors.join('\n')}`);
+    }
+    return entry as ModelConfigEntry;
+};
+
+// Check the registry for inconsistencies; returns one message per problem found
+export const validateModelRegistry = (): string[] => {
+    const issues: string[] = [];
+    const autoRanks = new Map<number, string>();
+
+    for (const [name, config] of Object.entries(MODEL_CONFIG)) {
+        issues.push(...validateModelConfigEntry(name, config));
+
+        if (!isImageModelConfig(config)) continue;
+
+        if (config.family !== 'AUTO' && !config.id) {
+            issues.push(`${name}: image model has no model ID`);
+        }
+
+        if (config.autoSelection) {
+            if (Object.keys(config.supports.guidance).length === 0) {
+                issues.push(`${name}: auto selection model has no guidance support`);
+            }
+            const sameRank = autoRanks.get(config.autoSelection.rank);
+            if (sameRank) {
+                issues.push(`${name}: auto selection rank ${config.autoSelection.rank} is also used by ${sameRank}`);
+            }
+            autoRanks.set(config.autoSelection.rank, name);
+        }
+    }
+
+    return issues;
+};
+
+// Log registry inconsistencies on startup
+export const reportModelRegistryIssues = () => {
+    const issues = validateModelRegistry();
+    if (issues.length > 0) {
+        console.warn(`⚠️ Model registry has ${issues.length} inconsistenc${issues.length === 1 ? 'y' : 'ies'}:\n${issues.join('\n')}`);
+    }
 };
 
 // Legacy compatibility - exports that match current constants.tsx usage
@@ -389,8 +779,8 @@ export const MODEL_ID_MAP: Record<string, string> = Object.fromEntries(
         .map(([name, config]) => [name, config.id as string])
 );
 
-export const MODEL_GUIDANCE_SUPPORT: Record<string, Record<string, { preprocessorId: number, maxInputs: number }>> = Object.fromEntries(
+export const MODEL_GUIDANCE_SUPPORT: Record<string, Partial<Record<GuidanceName, GuidanceSupport>>> = Object.fromEntries(
     Object.entries(MODEL_CONFIG)
-        .filter(([_, config]) => config.supports?.guidance)
-        .map(([name, config]) => [name, config.supports!.guidance!])
+        .filter(([_, config]) => isImageModelConfig(config))
+        .map(([name, config]) => [name, (config as ImageModelConfig).supports.guidance])
 );
\ No newline at end of file
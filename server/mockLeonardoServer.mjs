@@ -0,0 +1,505 @@
+/**
+ * Mock Leonardo.ai API Server
+ *
+ * Offline stand-in for the Leonardo.ai REST endpoints the app calls, for
+ * development, demos and tests without an API key or network access:
+ * - GET  /me, GET /generations/user/:id
+ * - POST /generations, GET /generations/:id
+ * - POST /generations-text-to-video, POST /generations-motion-svd
+ * - POST /init-image, POST /upload-init-image and the presigned S3 form upload
+ * - POST /prompt/improve
+ * - POST /variations/universal-upscaler, /variations/unzoom, /variations/nobg, GET /variations/:id
+ *
+ * Generations and variations complete after a short delay with placeholder
+ * SVG images rendered locally. Video generations complete with one SVG frame
+ * and a motionMP4URL that answers with an empty clip. Any API key is accepted.
+ *
+ * Scenarios script failure modes. Set one for every request with
+ * MOCK_SCENARIO, or for a single generation by putting `[mock:<scenario>]`
+ * in its prompt:
+ *   normal      Completes after MOCK_DELAY_MS (default)
+ *   slow        Completes after 10x MOCK_DELAY_MS
+ *   failed      Generation ends with status FAILED
+ *   moderated   Generation completes with no images
+ *   rate-limit  Every other generation create and status poll returns 429
+ *   malformed   Generation creates return a payload without the job
+ *   stuck       Generation never leaves PENDING
+ *
+ * Usage: npm run mock-api, then enable "Mock Leonardo API" in Settings → Developer Options.
+ * Environment:
+ *   PORT              Port to listen on (default 8788)
+ *   MOCK_SCENARIO     Default scenario (default normal)
+ *   MOCK_DELAY_MS     Time until a normal generation completes (default 3000)
+ *   MOCK_WEBHOOK_URL  When set, finished generations are also POSTed here as webhook
+ *                     callbacks, e.g. http://localhost:8787/webhook for the local receiver
+ */
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8788;
+const DEFAULT_SCENARIO = process.env.MOCK_SCENARIO || 'normal';
+const DELAY_MS = Number(process.env.MOCK_DELAY_MS) || 3000;
+const WEBHOOK_URL = process.env.MOCK_WEBHOOK_URL || '';
+const API_PREFIX = '/api/rest/v1';
+const BASE_URL = `http://localhost:${PORT}`;
+
+const SCENARIOS = ['normal', 'slow', 'failed', 'moderated', 'rate-limit', 'malformed', 'stuck'];
+
+const MOCK_USER = { id: 'mock-user-0001', username: 'mock-user' };
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, accept',
+};
+
+// Generations by ID, newest last
+const generations = new Map();
+const variations = new Map();
+const pollCounts = new Map();
+let rateLimitedCreates = 0;
+
+const scenarioFor = (prompt = '') => {
+  const match = prompt.match(/\[mock:([a-z-]+)\]/i);
+  const scenario = match ? match[1].toLowerCase() : DEFAULT_SCENARIO;
+  return SCENARIOS.includes(scenario) ? scenario : 'normal';
+};
+
+// --- PLACEHOLDER IMAGES ---
+
+const escapeXml = (text) => text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]));
+
+const hashHue = (text) => {
+  let hash = 0;
+  for (const char of text) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return hash % 360;
+};
+
+// Wrap the prompt into a few short lines for the placeholder label
+const wrapText = (text, maxChars = 32, maxLines = 4) => {
+  const lines = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if ((line + ' ' + word).trim().length > maxChars) {
+      lines.push(line);
+      line = word;
+      if (lines.length === maxLines) break;
+    } else {
+      line = (line + ' ' + word).trim();
+    }
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  return lines;
+};
+
+const renderPlaceholderSvg = ({ width, height, prompt, index }) => {
+  const hue = (hashHue(prompt) + index * 47) % 360;
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) / 24));
+  const lines = wrapText(prompt);
+  const startY = height / 2 - ((lines.length - 1) * fontSize * 1.3) / 2;
+  const text = lines.map((line, i) =>
+    `<text x="50%" y="${startY + i * fontSize * 1.3}" text-anchor="middle" dominant-baseline="middle">${escapeXml(line)}</text>`
+  ).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+<stop offset="0" stop-color="hsl(${hue},65%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},65%,25%)"/>
+</linearGradient></defs>
+<rect width="100%" height="100%" fill="url(#g)"/>
+<g fill="#fff" font-family="sans-serif" font-size="${fontSize}" opacity="0.9">${text}</g>
+<text x="50%" y="${height - fontSize}" text-anchor="middle" fill="#fff" opacity="0.6" font-family="monospace" font-size="${Math.round(fontSize * 0.7)}">MOCK ${width}×${height} #${index + 1}</text>
+</svg>`;
+};
+
+// --- GENERATION LIFECYCLE ---
+
+// Video generations produce a single clip
+const createGenerationRecord = (request, { isVideo = false } = {}) => {
+  const id = randomUUID();
+  const prompt = request.prompt || '';
+  const record = {
+    id,
+    status: 'PENDING',
+    prompt,
+    modelId: request.modelId || null,
+    createdAt: new Date().toISOString(),
+    imageWidth: request.width || (isVideo ? 1280 : 1024),
+    imageHeight: request.height || (isVideo ? 720 : 1024),
+    seed: request.seed ?? Math.floor(Math.random() * 1e9),
+    presetStyle: request.presetStyle || null,
+    generated_images: [],
+    scenario: scenarioFor(prompt),
+    numImages: isVideo ? 1 : Math.min(Math.max(request.num_images || 4, 1), 8),
+    isVideo,
+  };
+  generations.set(id, record);
+  return record;
+};
+
+const completionDelay = (record) => record.scenario === 'slow' ? DELAY_MS * 10 : DELAY_MS;
+
+// Move a record forward based on its age and scenario
+const advanceGeneration = (record) => {
+  if (record.status === 'COMPLETE' || record.status === 'FAILED' || record.scenario === 'stuck') return;
+
+  const age = Date.now() - new Date(record.createdAt).getTime();
+  const delay = completionDelay(record);
+  if (age < delay / 3) return;
+  if (age < delay) {
+    record.status = 'PROCESSING';
+    return;
+  }
+
+  if (record.scenario === 'failed') {
+    record.status = 'FAILED';
+    return;
+  }
+  record.status = 'COMPLETE';
+  if (record.scenario !== 'moderated') {
+    record.generated_images = Array.from({ length: record.numImages }, (_, index) => ({
+      id: `${record.id}-${index}`,
+      url: `${BASE_URL}/images/${record.id}/${index}.svg`,
+      nsfw: false,
+      likeCount: 0,
+      motionMP4URL: record.isVideo ? `${BASE_URL}/videos/${record.id}/${index}.mp4` : null,
+    }));
+  }
+};
+
+const toApiGeneration = ({ scenario, numImages, isVideo, ...generation }) => generation;
+
+// Send the webhook callback Leonardo would send once the generation finishes
+const scheduleWebhook = (record) => {
+  if (!WEBHOOK_URL || record.scenario === 'stuck') return;
+  setTimeout(async () => {
+    advanceGeneration(record);
+    const { generated_images, ...generation } = toApiGeneration(record);
+    try {
+      await fetch(WEBHOOK_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'image_generation.complete',
+          object: 'generation',
+          timestamp: Date.now(),
+          api_version: 'v1',
+          data: { object: { ...generation, images: generated_images } },
+        }),
+      });
+    } catch (error) {
+      console.warn(`Webhook to ${WEBHOOK_URL} failed:`, error.message);
+    }
+  }, completionDelay(record) + 50);
+};
+
+// --- VARIATION LIFECYCLE ---
+
+const VARIATION_OPERATIONS = {
+  'universal-upscaler': { transformType: 'UNIVERSAL_UPSCALER', jobKey: 'universalUpscaler' },
+  'unzoom': { transformType: 'UNZOOM', jobKey: 'sdUnzoomJob' },
+  'nobg': { transformType: 'NOBG', jobKey: 'sdNobgJob' },
+};
+
+// Variations keep their source ID so the placeholder can show where they came from
+const createVariationRecord = (transformType, sourceId) => {
+  const record = {
+    id: randomUUID(),
+    status: 'PENDING',
+    transformType,
+    createdAt: new Date().toISOString(),
+    url: null,
+    sourceId,
+  };
+  variations.set(record.id, record);
+  return record;
+};
+
+const advanceVariation = (record) => {
+  if (record.status === 'COMPLETE') return;
+  if (Date.now() - new Date(record.createdAt).getTime() < DELAY_MS) return;
+  record.status = 'COMPLETE';
+  record.url = `${BASE_URL}/variations/${record.id}.svg`;
+};
+
+// Walk a chain of variations back to the generated image (`<generationId>-<index>`) it started from
+const variationOrigin = (record) => {
+  const transforms = [record.transformType];
+  let sourceId = record.sourceId;
+  while (variations.has(sourceId)) {
+    const source = variations.get(sourceId);
+    transforms.unshift(source.transformType);
+    sourceId = source.sourceId;
+  }
+  const match = sourceId.match(/^(.+)-(\d+)$/);
+  return {
+    generation: match ? generations.get(match[1]) : undefined,
+    index: match ? Number(match[2]) : 0,
+    transforms,
+  };
+};
+
+const toApiVariation = ({ sourceId, ...variation }) => variation;
+
+// --- HTTP HELPERS ---
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const readJson = async (req) => {
+  const body = await readBody(req);
+  return body ? JSON.parse(body) : {};
+};
+
+const sendJson = (res, status, payload) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const sendError = (res, status, error) => sendJson(res, status, { error });
+
+const rateLimited = (res) => sendError(res, 429, 'Too many requests (mock rate-limit scenario)');
+
+// Create a generation, or fail the way its scenario asks, and reply under jobKey
+const startGeneration = (res, request, jobKey, options) => {
+  const scenario = scenarioFor(request.prompt);
+  if (scenario === 'rate-limit' && rateLimitedCreates++ % 2 === 0) {
+    rateLimited(res);
+    return;
+  }
+  if (scenario === 'malformed') {
+    sendJson(res, 200, { [jobKey]: null, message: 'mock malformed response' });
+    return;
+  }
+  const record = createGenerationRecord(request, options);
+  scheduleWebhook(record);
+  sendJson(res, 200, { [jobKey]: { generationId: record.id, apiCreditCost: record.numImages * 8 } });
+};
+
+// --- ROUTES ---
+
+const routes = [
+  ['GET', /^\/me$/, (req, res) => {
+    sendJson(res, 200, {
+      user_details: [{
+        user: MOCK_USER,
+        subscriptionTokens: 8500,
+        apiCredit: 10000,
+      }],
+    });
+  }],
+
+  ['GET', /^\/generations\/user\/([^/]+)$/, (req, res, [userId], query) => {
+    if (userId !== MOCK_USER.id) {
+      sendJson(res, 200, { generations: [] });
+      return;
+    }
+    const offset = Number(query.get('offset')) || 0;
+    const limit = Number(query.get('limit')) || 10;
+    const all = [...generations.values()];
+    all.forEach(advanceGeneration);
+    const page = all.reverse().slice(offset, offset + limit).map(toApiGeneration);
+    sendJson(res, 200, { generations: page });
+  }],
+
+  ['POST', /^\/generations$/, async (req, res) => {
+    const request = await readJson(req);
+    if (!request.prompt) {
+      sendError(res, 400, 'prompt is required');
+      return;
+    }
+    startGeneration(res, request, 'sdGenerationJob');
+  }],
+
+  ['POST', /^\/generations-text-to-video$/, async (req, res) => {
+    const request = await readJson(req);
+    if (!request.prompt) {
+      sendError(res, 400, 'prompt is required');
+      return;
+    }
+    startGeneration(res, request, 'motionVideoGenerationJob', { isVideo: true });
+  }],
+
+  // The clip keeps the size and prompt of the image it animates, when that image is known here
+  ['POST', /^\/generations-motion-svd$/, async (req, res) => {
+    const { imageId } = await readJson(req);
+    if (!imageId) {
+      sendError(res, 400, 'imageId is required');
+      return;
+    }
+    const source = generations.get(String(imageId).replace(/-\d+$/, ''));
+    const request = source
+      ? { prompt: source.prompt, width: source.imageWidth, height: source.imageHeight }
+      : { prompt: 'Animated image' };
+    startGeneration(res, request, 'motionSvdGenerationJob', { isVideo: true });
+  }],
+
+  ['GET', /^\/generations\/([^/]+)$/, (req, res, [generationId]) => {
+    const record = generations.get(generationId);
+    if (record?.scenario === 'rate-limit') {
+      const polls = (pollCounts.get(generationId) || 0) + 1;
+      pollCounts.set(generationId, polls);
+      if (polls % 2 === 1) {
+        rateLimited(res);
+        return;
+      }
+    }
+    if (record) advanceGeneration(record);
+    sendJson(res, 200, { generations_by_pk: record ? toApiGeneration(record) : null });
+  }],
+
+  ['DELETE', /^\/generations\/([^/]+)$/, (req, res, [generationId]) => {
+    const existed = generations.delete(generationId);
+    sendJson(res, 200, { delete_generations_by_pk: existed ? { id: generationId } : null });
+  }],
+
+  ['POST', /^\/variations\/(universal-upscaler|unzoom|nobg)$/, async (req, res, [operation]) => {
+    const request = await readJson(req);
+    const sourceId = operation === 'universal-upscaler'
+      ? request.generatedImageId || request.initImageId || request.variationId
+      : request.id;
+    if (!sourceId) {
+      sendError(res, 400, 'a source image ID is required');
+      return;
+    }
+    const { transformType, jobKey } = VARIATION_OPERATIONS[operation];
+    const record = createVariationRecord(transformType, sourceId);
+    sendJson(res, 200, { [jobKey]: { id: record.id, apiCreditCost: 5 } });
+  }],
+
+  ['GET', /^\/variations\/([^/]+)$/, (req, res, [variationId]) => {
+    const record = variations.get(variationId);
+    if (record) advanceVariation(record);
+    sendJson(res, 200, { generated_image_variation_generic: record ? [toApiVariation(record)] : [] });
+  }],
+
+  ['POST', /^\/prompt\/improve$/, async (req, res) => {
+    const { prompt, promptInstructions } = await readJson(req);
+    if (!prompt) {
+      sendError(res, 400, 'prompt is required');
+      return;
+    }
+    const improved = promptInstructions
+      ? `${prompt}, reworked to ${promptInstructions}`
+      : `${prompt}, highly detailed, cinematic lighting, vibrant colors (mock improved)`;
+    sendJson(res, 200, { promptGeneration: { prompt: improved, apiCreditCost: 4 } });
+  }],
+
+  ['POST', /^\/init-image$/, async (req, res) => {
+    const { extension = 'jpg' } = await readJson(req);
+    const id = randomUUID();
+    const key = `mock-init-images/${id}.${extension}`;
+    sendJson(res, 200, {
+      uploadInitImage: {
+        id,
+        key,
+        url: `${BASE_URL}/mock-s3`,
+        fields: JSON.stringify({ key, 'Content-Type': `image/${extension}`, policy: 'mock-policy', 'X-Amz-Signature': 'mock-signature' }),
+      },
+    });
+  }],
+
+  ['POST', /^\/upload-init-image$/, async (req, res) => {
+    const { imageDataUrl } = await readJson(req);
+    if (typeof imageDataUrl !== 'string' || !imageDataUrl.startsWith('data:image/')) {
+      sendError(res, 400, 'imageDataUrl must be an image data URL');
+      return;
+    }
+    sendJson(res, 200, { uploadInitImageByUrl: { id: randomUUID() } });
+  }],
+];
+
+const handleRequest = async (req, res) => {
+  const url = new URL(req.url || '/', BASE_URL);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  // Presigned S3 form upload; the app posts it in no-cors mode, so only the status matters
+  if (req.method === 'POST' && url.pathname === '/mock-s3') {
+    await readBody(req);
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  const imageMatch = req.method === 'GET' && url.pathname.match(/^\/images\/([^/]+)\/(\d+)\.svg$/);
+  if (imageMatch) {
+    const record = generations.get(imageMatch[1]);
+    if (!record) {
+      res.writeHead(404, CORS_HEADERS).end();
+      return;
+    }
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'image/svg+xml' });
+    res.end(renderPlaceholderSvg({
+      width: record.imageWidth,
+      height: record.imageHeight,
+      prompt: record.prompt.replace(/\[mock:[a-z-]+\]/gi, '').trim() || 'Mock generation',
+      index: Number(imageMatch[2]),
+    }));
+    return;
+  }
+
+  // The mock renders no video, so clips are empty
+  const videoMatch = req.method === 'GET' && url.pathname.match(/^\/videos\/([^/]+)\/\d+\.mp4$/);
+  if (videoMatch) {
+    res.writeHead(generations.has(videoMatch[1]) ? 200 : 404, { ...CORS_HEADERS, 'Content-Type': 'video/mp4' }).end();
+    return;
+  }
+
+  const variationMatch = req.method === 'GET' && url.pathname.match(/^\/variations\/([^/]+)\.svg$/);
+  if (variationMatch) {
+    const record = variations.get(variationMatch[1]);
+    if (!record) {
+      res.writeHead(404, CORS_HEADERS).end();
+      return;
+    }
+    const { generation, index, transforms } = variationOrigin(record);
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'image/svg+xml' });
+    res.end(renderPlaceholderSvg({
+      width: generation?.imageWidth || 1024,
+      height: generation?.imageHeight || 1024,
+      prompt: `${transforms.join(' → ')}: ${generation?.prompt.replace(/\[mock:[a-z-]+\]/gi, '').trim() || 'Mock image'}`,
+      index,
+    }));
+    return;
+  }
+
+  if (!url.pathname.startsWith(API_PREFIX)) {
+    sendError(res, 404, 'Not found');
+    return;
+  }
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    sendError(res, 401, 'Missing Authorization header');
+    return;
+  }
+
+  const path = url.pathname.slice(API_PREFIX.length);
+  for (const [method, pattern, handler] of routes) {
+    const match = req.method === method && path.match(pattern);
+    if (match) {
+      await handler(req, res, match.slice(1), url.searchParams);
+      return;
+    }
+  }
+  sendError(res, 404, `No mock for ${req.method} ${path}`);
+};
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    console.error(`${req.method} ${req.url} failed:`, error);
+    if (!res.headersSent) sendError(res, error instanceof SyntaxError ? 400 : 500, error.message);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Leonardo API listening on ${BASE_URL}${API_PREFIX}`);
+  console.log(`  Default scenario: ${DEFAULT_SCENARIO} (override per prompt with [mock:<scenario>])`);
+  console.log(`  Scenarios: ${SCENARIOS.join(', ')}`);
+  if (WEBHOOK_URL) console.log(`  Sending webhook callbacks to ${WEBHOOK_URL}`);
+});
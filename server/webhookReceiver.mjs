@@ -0,0 +1,143 @@
+/**
+ * Local Webhook Receiver
+ *
+ * Stand-in for a production webhook endpoint (API Guide §1.2). Leonardo.ai
+ * POSTs finished generations to /webhook; each one is normalized into the
+ * GET /generations/{id} shape and forwarded to every connected browser tab
+ * over Server-Sent Events on /events.
+ *
+ * Leonardo only calls https URLs, so expose this server through a tunnel
+ * (e.g. `cloudflared tunnel --url http://localhost:8787`) and register
+ * `<tunnel-url>/webhook` as the callback URL of your API key.
+ *
+ * Usage: npm run webhook-receiver
+ * Environment:
+ *   PORT                 Port to listen on (default 8787)
+ *   WEBHOOK_API_KEY      Callback API key set on the Leonardo API key; when set,
+ *                        requests without a matching Authorization header are rejected
+ *   REPLAY_WINDOW_MS     How long events are kept for tabs that connect late (default 5 minutes)
+ */
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WEBHOOK_API_KEY = process.env.WEBHOOK_API_KEY || '';
+const REPLAY_WINDOW_MS = Number(process.env.REPLAY_WINDOW_MS) || 5 * 60 * 1000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+const clients = new Set();
+let recentEvents = [];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Normalize a webhook payload ({ type, data: { object: { id, status, images } } }) into a Generation
+const parseWebhookPayload = (payload) => {
+  const object = payload?.data?.object || payload?.generations_by_pk || payload;
+  const id = object?.id || object?.generationId;
+  if (!id) return null;
+
+  const { images, ...rest } = object;
+  return {
+    ...rest,
+    id,
+    status: object.status || (payload?.type?.endsWith('.complete') ? 'COMPLETE' : 'PENDING'),
+    generated_images: images || object.generated_images || [],
+  };
+};
+
+const isAuthorized = (req) => {
+  if (!WEBHOOK_API_KEY) return true;
+  const header = req.headers.authorization || '';
+  return header === WEBHOOK_API_KEY || header === `Bearer ${WEBHOOK_API_KEY}`;
+};
+
+const sendEvent = (res, event) => {
+  res.write(`event: generation\ndata: ${JSON.stringify(event)}\n\n`);
+};
+
+const broadcast = (event) => {
+  const cutoff = Date.now() - REPLAY_WINDOW_MS;
+  recentEvents = [...recentEvents.filter(e => e.receivedAt >= cutoff), event];
+  clients.forEach(res => sendEvent(res, event));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const handleWebhook = async (req, res) => {
+  if (!isAuthorized(req)) {
+    res.writeHead(401, CORS_HEADERS).end('Unauthorized');
+    return;
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(await readBody(req));
+  } catch (error) {
+    res.writeHead(400, CORS_HEADERS).end('Invalid JSON');
+    return;
+  }
+
+  const generation = parseWebhookPayload(payload);
+  if (!generation) {
+    console.warn('Webhook payload without a generation ID:', payload);
+    res.writeHead(422, CORS_HEADERS).end('Missing generation ID');
+    return;
+  }
+
+  console.log(`Webhook ${payload?.type || 'event'} for ${generation.id} (${generation.status}), forwarding to ${clients.size} tab(s)`);
+  broadcast({ generationId: generation.id, generation, receivedAt: Date.now() });
+  res.writeHead(200, CORS_HEADERS).end('OK');
+};
+
+const handleEvents = (req, res) => {
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  // Replay recent events so a tab that reconnects does not miss completions
+  const cutoff = Date.now() - REPLAY_WINDOW_MS;
+  recentEvents.filter(e => e.receivedAt >= cutoff).forEach(event => sendEvent(res, event));
+
+  clients.add(res);
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+  req.on('close', () => {
+    clearInterval(keepalive);
+    clients.delete(res);
+  });
+};
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url || '/', `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+  } else if (req.method === 'POST' && pathname === '/webhook') {
+    handleWebhook(req, res).catch(error => {
+      console.error('Webhook handling failed:', error);
+      res.writeHead(500, CORS_HEADERS).end();
+    });
+  } else if (req.method === 'GET' && pathname === '/events') {
+    handleEvents(req, res);
+  } else {
+    res.writeHead(404, CORS_HEADERS).end('Not found');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook receiver listening on http://localhost:${PORT}`);
+  console.log(`  POST /webhook  <- Leonardo.ai callbacks${WEBHOOK_API_KEY ? ' (Authorization required)' : ''}`);
+  console.log(`  GET  /events   -> Server-Sent Events for the app`);
+});
@@ -0,0 +1,106 @@
+/**
+ * Golden-file regression suite for auto model selection.
+ *
+ * Every case in golden/autoModelSelection.json is a (prompt, recommendation
+ * string, reference image count) input with the expected parse, text
+ * complexity, model and guidance type. A changed result fails its case and
+ * prints a diff report of every case that moved.
+ *
+ * Adding a case: open "Why this model?" on a job card, click "Copy as test
+ * case" and append the JSON to the corpus, correcting `expected` if the app
+ * picked the wrong model.
+ *
+ * Accepting intentional changes: UPDATE_GOLDEN=1 npm test rewrites `expected`
+ * from the current results; review the JSON diff before committing it.
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+import { readFileSync, writeFileSync } from 'node:fs';
+import {
+  parseRecommendation,
+  selectGuidanceType,
+  selectOptimalModel,
+  ParsedRecommendation,
+  TextComplexityResult,
+  GuidanceTypeName,
+  SelectionContext,
+} from '../autoModelLogic';
+
+interface SelectionExpectation {
+  parsed: ParsedRecommendation;
+  textComplexity: TextComplexityResult['complexity'];
+  model: string;
+  guidanceType: GuidanceTypeName | null; // null when no reference images are used
+}
+
+interface SelectionCase {
+  id: string;
+  note?: string;
+  prompt: string;
+  recommendation: string;
+  referenceImageCount: number;
+  context?: SelectionContext;
+  expected: SelectionExpectation;
+}
+
+const GOLDEN_FILE = new URL('./golden/autoModelSelection.json', import.meta.url);
+const UPDATE_GOLDEN = !!process.env.UPDATE_GOLDEN;
+
+const cases: SelectionCase[] = JSON.parse(readFileSync(GOLDEN_FILE, 'utf8'));
+
+const runCase = (testCase: SelectionCase): SelectionExpectation => {
+  const { prompt, recommendation, referenceImageCount, context = {} } = testCase;
+  const parsed = parseRecommendation(recommendation);
+  // The complexity the selection used, which is 'none' unless the recommendation asks for text
+  const { selectedModel, recommendedGuidanceType, trace } = selectOptimalModel(recommendation, referenceImageCount, prompt, context);
+  return {
+    parsed,
+    textComplexity: trace.textComplexity.complexity,
+    model: selectedModel,
+    guidanceType: recommendedGuidanceType ?? null,
+  };
+};
+
+const results = cases.map(testCase => ({ testCase, actual: runCase(testCase) }));
+
+// One line per changed field: case id, field, expected → actual
+const diffReport = (): string[] => {
+  return results.flatMap(({ testCase, actual }) => {
+    return (Object.keys(actual) as (keyof SelectionExpectation)[])
+      .filter(field => JSON.stringify(actual[field]) !== JSON.stringify(testCase.expected?.[field]))
+      .map(field => `  ${testCase.id.padEnd(36)} ${field.padEnd(15)} ${JSON.stringify(testCase.expected?.[field])} → ${JSON.stringify(actual[field])}`);
+  });
+};
+
+describe('auto model selection golden cases', () => {
+  it('has unique case ids', () => {
+    const ids = cases.map(testCase => testCase.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it.each(results.map(({ testCase, actual }) => [testCase.id, testCase, actual] as const))('%s', (_, testCase, actual) => {
+    if (UPDATE_GOLDEN) return;
+    expect(actual).toEqual(testCase.expected);
+  });
+
+  it.each(results.filter(({ testCase }) => testCase.referenceImageCount > 0).map(({ testCase, actual }) => [testCase.id, actual] as const))(
+    '%s: selectGuidanceType agrees with selectOptimalModel',
+    (_, actual) => {
+      expect(selectGuidanceType(actual.model, actual.parsed.preferredGuidanceTypes)).toBe(actual.guidanceType);
+    }
+  );
+
+  afterAll(() => {
+    const diffs = diffReport();
+    if (diffs.length === 0) return;
+
+    if (UPDATE_GOLDEN) {
+      const updated = results.map(({ testCase, actual }) => ({ ...testCase, expected: actual }));
+      writeFileSync(GOLDEN_FILE, JSON.stringify(updated, null, 2) + '\n');
+      console.log(`Updated ${diffs.length} golden value(s):\n${diffs.join('\n')}`);
+    } else {
+      console.log(`Auto selection changed for ${diffs.length} golden value(s):\n${diffs.join('\n')}\n` +
+        'Run UPDATE_GOLDEN=1 npm test to accept the new results.');
+    }
+  });
+});
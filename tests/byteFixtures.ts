@@ -0,0 +1,5 @@
+/**
+ * Byte fixtures shared by the binary format tests.
+ */
+
+export const bytes = (text: string) => new TextEncoder().encode(text);
@@ -0,0 +1,169 @@
+/**
+ * Generation poller: backoff and jitter timing, the overall deadline,
+ * transient-failure retries and error classification, on fake timers.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { pollGeneration, waitForGenerationCompletion, classifyGenerationError, GenerationFailure } from '../generationPoller';
+import { LeonardoClient, LeonardoApiError, LeonardoNetworkError } from '../leonardoClient';
+import { WebhookListener } from '../webhookListener';
+
+const NO_JITTER = { initialDelayMs: 1000, maxDelayMs: 4000, backoffFactor: 2, jitterRatio: 0 };
+
+const completed = (id: string) => ({ id, status: 'COMPLETE', generated_images: [{ id: `${id}-img`, url: `https://cdn.test/${id}.png` }] });
+const pending = (id: string) => ({ id, status: 'PENDING', generated_images: [] });
+
+// getGeneration answers from the queue (an Error is thrown), then stays PENDING; each call's time is recorded
+const stubClient = (responses: Array<object | Error> = []) => {
+  const calls: number[] = [];
+  const client = {
+    getGeneration: async (id: string) => {
+      calls.push(Date.now());
+      const next = responses.shift() ?? pending(id);
+      if (next instanceof Error) throw next;
+      return { generations_by_pk: next };
+    },
+  };
+  return { client: client as unknown as LeonardoClient, calls };
+};
+
+const failureOf = async (promise: Promise<unknown>): Promise<GenerationFailure> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as GenerationFailure;
+  }
+  throw new Error('Expected the wait to fail');
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('pollGeneration', () => {
+  it('backs off by the factor up to the maximum delay', async () => {
+    const { client, calls } = stubClient([pending('g'), pending('g'), pending('g'), pending('g'), completed('g')]);
+    const startedAt = Date.now();
+    const result = pollGeneration(client, 'g', NO_JITTER);
+    await vi.runAllTimersAsync();
+
+    expect((await result).id).toBe('g');
+    const gaps = calls.map((time, i) => time - (i === 0 ? startedAt : calls[i - 1]));
+    expect(gaps).toEqual([1000, 2000, 4000, 4000, 4000]);
+  });
+
+  it('randomises each delay by up to the jitter ratio', async () => {
+    const random = vi.spyOn(Math, 'random');
+    const { client, calls } = stubClient([pending('g'), completed('g')]);
+    random.mockReturnValueOnce(1).mockReturnValueOnce(0);
+    const startedAt = Date.now();
+    const result = pollGeneration(client, 'g', { ...NO_JITTER, backoffFactor: 1, jitterRatio: 0.2 });
+    await vi.runAllTimersAsync();
+
+    await result;
+    expect([calls[0] - startedAt, calls[1] - calls[0]]).toEqual([1200, 800]);
+  });
+
+  it('times out once the overall limit has passed', async () => {
+    const { client, calls } = stubClient();
+    const startedAt = Date.now();
+    const failure = failureOf(pollGeneration(client, 'g', { ...NO_JITTER, timeoutMs: 10000 }));
+    await vi.runAllTimersAsync();
+
+    expect(await failure).toMatchObject({ kind: 'timeout', message: 'Generation did not finish within 10s.' });
+    // The last sleep is cut short so the deadline is not overshot
+    expect(calls.map(time => time - startedAt)).toEqual([1000, 3000, 7000, 10000]);
+  });
+
+  it('retries rate limits, server errors and network failures', async () => {
+    const { client, calls } = stubClient([
+      new LeonardoApiError('GET /generations/g', 429, 'slow down'),
+      new LeonardoApiError('GET /generations/g', 503, 'unavailable'),
+      new LeonardoNetworkError('GET /generations/g', new TypeError('Failed to fetch')),
+      completed('g'),
+    ]);
+    const result = pollGeneration(client, 'g', NO_JITTER);
+    await vi.runAllTimersAsync();
+
+    expect((await result).status).toBe('COMPLETE');
+    expect(calls).toHaveLength(4);
+  });
+
+  it('gives up after too many consecutive transient failures', async () => {
+    const { client, calls } = stubClient(Array.from({ length: 3 }, () => new LeonardoApiError('GET /generations/g', 502, 'bad gateway')));
+    const failure = failureOf(pollGeneration(client, 'g', { ...NO_JITTER, maxTransientRetries: 2 }));
+    await vi.runAllTimersAsync();
+
+    expect((await failure).kind).toBe('api');
+    expect(calls).toHaveLength(3);
+  });
+
+  it('fails fast on client errors and on a TypeError that is not a network failure', async () => {
+    for (const error of [new LeonardoApiError('GET /generations/g', 400, 'bad request'), new TypeError('x is undefined')]) {
+      const { client, calls } = stubClient([error]);
+      const failure = failureOf(pollGeneration(client, 'g', NO_JITTER));
+      await vi.runAllTimersAsync();
+
+      expect((await failure).kind).toBe('api');
+      expect(calls).toHaveLength(1);
+    }
+  });
+
+  it('reports a completed generation without images as moderated', async () => {
+    const { client } = stubClient([{ id: 'g', status: 'COMPLETE', generated_images: [] }]);
+    const failure = failureOf(pollGeneration(client, 'g', NO_JITTER));
+    await vi.runAllTimersAsync();
+
+    expect((await failure).kind).toBe('moderation');
+  });
+
+  it('stops as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const { client, calls } = stubClient();
+    const failure = failureOf(pollGeneration(client, 'g', { ...NO_JITTER, signal: controller.signal }));
+    await vi.advanceTimersByTimeAsync(1500);
+    controller.abort();
+
+    expect((await failure).kind).toBe('cancelled');
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('waitForGenerationCompletion', () => {
+  it('falls back to polling within the same overall deadline', async () => {
+    const webhook = {
+      isConnected: true,
+      waitForGeneration: (_id: string, timeoutMs: number) => new Promise(resolve => setTimeout(() => resolve(null), timeoutMs)),
+    } as unknown as WebhookListener;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { client, calls } = stubClient();
+    const startedAt = Date.now();
+    const failure = failureOf(waitForGenerationCompletion(client, 'g', { ...NO_JITTER, webhook, webhookTimeoutMs: 6000, timeoutMs: 10000 }));
+    await vi.runAllTimersAsync();
+
+    expect((await failure).kind).toBe('timeout');
+    expect(calls[0] - startedAt).toBe(7000);
+    expect(Date.now() - startedAt).toBe(10000);
+  });
+});
+
+describe('classifyGenerationError', () => {
+  it('sorts errors into failure kinds', () => {
+    const kindOf = (error: unknown) => classifyGenerationError(error, 'g').kind;
+    expect(kindOf(new DOMException('Aborted', 'AbortError'))).toBe('cancelled');
+    expect(kindOf(new LeonardoApiError('POST /generations', 400, '{"error":"content moderation filter"}'))).toBe('moderation');
+    expect(kindOf(new LeonardoApiError('POST /generations', 400, '{"error":"invalid width"}'))).toBe('api');
+    expect(kindOf(new LeonardoNetworkError('POST /generations', new TypeError('Failed to fetch')))).toBe('network');
+    expect(kindOf(new TypeError('x is undefined'))).toBe('api');
+  });
+
+  it('keeps an existing failure as it is', () => {
+    const failure = new GenerationFailure('timeout', 'Too slow.', 'g');
+    expect(classifyGenerationError(failure)).toBe(failure);
+  });
+});
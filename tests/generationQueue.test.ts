@@ -0,0 +1,164 @@
+/**
+ * Generation queue: the concurrency cap, reordering, hold and release,
+ * cancel and retry, and the backoff after a rate-limit (429) response, with
+ * a runner the tests settle by hand.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerationQueue, GenerationQueueOptions, QueueItemStatus, parsePromptList } from '../generationQueue';
+import { LeonardoApiError } from '../leonardoClient';
+
+interface Run {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  signal: AbortSignal;
+}
+
+// A queue whose runner waits until the test settles each run, keyed by prompt
+const createQueue = (options: GenerationQueueOptions = {}) => {
+  const runs = new Map<string, Run>();
+  const started: string[] = [];
+  const queue = new GenerationQueue((item, signal) => new Promise<void>((resolve, reject) => {
+    started.push(item.prompt);
+    runs.set(item.prompt, { resolve, reject, signal });
+  }), options);
+  const statuses = (): Record<string, QueueItemStatus> => Object.fromEntries(queue.getState().items.map(item => [item.prompt, item.status]));
+  const idOf = (prompt: string) => queue.getState().items.find(item => item.prompt === prompt)!.id;
+  return { queue, runs, started, statuses, idOf };
+};
+
+// Runners start and settle through promise callbacks
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+const rateLimit = () => new LeonardoApiError('POST /generations', 429, 'Too many requests');
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('parsePromptList', () => {
+  it('takes one prompt per non-empty line', () => {
+    expect(parsePromptList('a cat\r\n\n  a dog  \n')).toEqual(['a cat', 'a dog']);
+  });
+});
+
+describe('GenerationQueue', () => {
+  it('never runs more items than the concurrency cap, starting them in order', async () => {
+    const { queue, runs, started, statuses } = createQueue({ concurrency: 2 });
+    queue.add(['a', 'b', 'c', 'd']);
+    await settle();
+    expect(started).toEqual(['a', 'b']);
+
+    runs.get('b')!.resolve();
+    await settle();
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(statuses()).toEqual({ a: 'running', b: 'completed', c: 'running', d: 'queued' });
+
+    queue.setConcurrency(3);
+    await settle();
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('starts items in their new order after a move', async () => {
+    const { queue, started, idOf } = createQueue({ concurrency: 1 });
+    queue.pause();
+    queue.add(['a', 'b', 'c']);
+    queue.move(idOf('c'), 0);
+    queue.resume();
+    await settle();
+    expect(started).toEqual(['c']);
+    expect(queue.getState().items.map(item => item.prompt)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('skips a held item until it is released', async () => {
+    const { queue, runs, started, statuses, idOf } = createQueue({ concurrency: 1 });
+    queue.add(['a', 'b', 'c']);
+    queue.hold(idOf('b'));
+    await settle();
+    runs.get('a')!.resolve();
+    await settle();
+    expect(started).toEqual(['a', 'c']);
+    expect(statuses().b).toBe('held');
+
+    queue.release(idOf('b'));
+    runs.get('c')!.resolve();
+    await settle();
+    expect(started).toEqual(['a', 'c', 'b']);
+  });
+
+  it('aborts a cancelled run and keeps it cancelled whatever the runner does', async () => {
+    const { queue, runs, statuses, idOf } = createQueue();
+    queue.add(['a']);
+    await settle();
+    queue.cancel(idOf('a'));
+    expect(runs.get('a')!.signal.aborted).toBe(true);
+
+    runs.get('a')!.resolve();
+    await settle();
+    expect(statuses().a).toBe('cancelled');
+  });
+
+  it('retries a failed item from the end of the queue', async () => {
+    const { queue, runs, started, idOf } = createQueue({ concurrency: 1 });
+    queue.add(['a', 'b']);
+    await settle();
+    runs.get('a')!.reject(new Error('Generation failed.'));
+    await settle();
+    expect(queue.getState().items[0]).toMatchObject({ prompt: 'a', status: 'failed', error: 'Generation failed.' });
+
+    queue.retry(idOf('a'));
+    expect(queue.getState().items.map(item => [item.prompt, item.status])).toEqual([['b', 'running'], ['a', 'queued']]);
+    runs.get('b')!.resolve();
+    await settle();
+    expect(started).toEqual(['a', 'b', 'a']);
+    expect(queue.getState().items[1]).toMatchObject({ status: 'running', attempts: 2, error: undefined });
+  });
+
+  it('backs off exponentially after rate limits and requeues the item at the front', async () => {
+    const { queue, runs, started, statuses } = createQueue({ concurrency: 1, rateLimitBackoffMs: 1000, maxRateLimitBackoffMs: 3000 });
+    queue.add(['a', 'b']);
+    await settle();
+
+    // Each consecutive 429 doubles the pause, up to the maximum
+    for (const [attempt, delayMs] of [1000, 2000, 3000].entries()) {
+      const startedAt = Date.now();
+      runs.get('a')!.reject(rateLimit());
+      await settle();
+      expect(statuses()).toEqual({ a: 'queued', b: 'queued' });
+      expect(queue.getState().rateLimitedUntil).toBe(startedAt + delayMs);
+
+      await vi.advanceTimersByTimeAsync(delayMs - 1);
+      expect(started).toHaveLength(attempt + 1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(queue.getState().rateLimitedUntil).toBeNull();
+      expect(statuses().a).toBe('running');
+    }
+    expect(queue.getState().items[0].attempts).toBe(4);
+
+    // A success resets the backoff
+    runs.get('a')!.resolve();
+    await settle();
+    const startedAt = Date.now();
+    runs.get('b')!.reject(rateLimit());
+    await settle();
+    expect(queue.getState().rateLimitedUntil).toBe(startedAt + 1000);
+  });
+
+  it('resuming ends a rate-limit pause early', async () => {
+    const { queue, runs, statuses } = createQueue({ rateLimitBackoffMs: 60_000 });
+    queue.add(['a']);
+    await settle();
+    runs.get('a')!.reject(rateLimit());
+    await settle();
+    expect(statuses().a).toBe('queued');
+
+    queue.resume();
+    await settle();
+    expect(statuses().a).toBe('running');
+    expect(queue.getState().rateLimitedUntil).toBeNull();
+  });
+});
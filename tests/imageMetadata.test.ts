@@ -0,0 +1,116 @@
+/**
+ * Recipe metadata: embedding into PNG (iTXt) and JPEG (XMP) and reading it
+ * back, on minimal hand-built files.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { embedRecipe, readRecipe, GenerationRecipe, RECIPE_VERSION } from '../imageMetadata';
+import { crc32 } from '../zipArchive';
+import { bytes } from './byteFixtures';
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const header = new DataView(new ArrayBuffer(8));
+  header.setUint32(0, data.length);
+  new Uint8Array(header.buffer).set(bytes(type), 4);
+  const trailer = new DataView(new ArrayBuffer(4));
+  trailer.setUint32(0, crc32(concat(bytes(type), data)));
+  return concat(new Uint8Array(header.buffer), data, new Uint8Array(trailer.buffer));
+};
+
+// Signature, IHDR, a stand-in IDAT and IEND; the image data is never decoded
+const minimalPng = (): Uint8Array => concat(
+  new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+  pngChunk('IHDR', new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0])),
+  pngChunk('IDAT', new Uint8Array([1, 2, 3])),
+  pngChunk('IEND', new Uint8Array()),
+);
+
+const pngChunkTypes = (data: Uint8Array): string[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const types: string[] = [];
+  for (let offset = 8; offset < data.length; offset += 12 + view.getUint32(offset)) {
+    types.push(String.fromCharCode(...data.subarray(offset + 4, offset + 8)));
+  }
+  return types;
+};
+
+// SOI, a JFIF APP0, start of scan with some scan data, EOI
+const SCAN = new Uint8Array([0xFF, 0xDA, 0x00, 0x02, 0x11, 0x22, 0x33, 0xFF, 0xD9]);
+const minimalJpeg = (): Uint8Array => concat(
+  new Uint8Array([0xFF, 0xD8]),
+  new Uint8Array([0xFF, 0xE0, 0x00, 0x07]), bytes('JFIF\0'),
+  SCAN,
+);
+
+const recipe = (overrides: Partial<GenerationRecipe> = {}): GenerationRecipe => ({
+  version: RECIPE_VERSION,
+  prompt: 'a <small> "cat" & a dog, café',
+  model: 'Auto',
+  actualModel: 'Leonardo Phoenix',
+  seed: 1234,
+  aspectRatio: '16:9',
+  guidance: { type: 'style', strength: 'High', count: 1 },
+  ...overrides,
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('PNG', () => {
+  it('reads back the embedded recipe', () => {
+    const embedded = embedRecipe(minimalPng(), recipe());
+    expect(readRecipe(embedded)).toEqual(recipe());
+    expect(pngChunkTypes(embedded)).toEqual(['IHDR', 'iTXt', 'iTXt', 'tEXt', 'IDAT', 'IEND']);
+  });
+
+  it('replaces an earlier recipe instead of adding another', () => {
+    const twice = embedRecipe(embedRecipe(minimalPng(), recipe()), recipe({ prompt: 'a fox' }));
+    expect(readRecipe(twice)?.prompt).toBe('a fox');
+    expect(pngChunkTypes(twice)).toEqual(['IHDR', 'iTXt', 'iTXt', 'tEXt', 'IDAT', 'IEND']);
+  });
+
+  it('finds no recipe in a plain file', () => {
+    expect(readRecipe(minimalPng())).toBeNull();
+  });
+});
+
+describe('JPEG', () => {
+  it('reads back the embedded recipe and keeps the scan data', () => {
+    const embedded = embedRecipe(minimalJpeg(), recipe());
+    expect(readRecipe(embedded)).toEqual(recipe());
+    // XMP follows the JFIF header
+    expect([...embedded.subarray(2, 4)]).toEqual([0xFF, 0xE0]);
+    expect([...embedded.subarray(11, 13)]).toEqual([0xFF, 0xE1]);
+    expect([...embedded.subarray(embedded.length - SCAN.length)]).toEqual([...SCAN]);
+  });
+
+  it('replaces an earlier recipe instead of adding another', () => {
+    const once = embedRecipe(minimalJpeg(), recipe());
+    const twice = embedRecipe(once, recipe({ prompt: 'a fox' }));
+    expect(readRecipe(twice)?.prompt).toBe('a fox');
+    expect(new TextDecoder().decode(twice).split('http://ns.adobe.com/xap/1.0/\0')).toHaveLength(2);
+  });
+
+  it('returns the file unchanged when the recipe does not fit one XMP segment', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const jpeg = minimalJpeg();
+    expect(embedRecipe(jpeg, recipe({ prompt: 'x'.repeat(40000) }))).toBe(jpeg);
+  });
+});
+
+it('leaves other formats unchanged', () => {
+  const video = bytes('\0\0\0\x18ftypmp42');
+  expect(embedRecipe(video, recipe())).toBe(video);
+  expect(readRecipe(video)).toBeNull();
+});
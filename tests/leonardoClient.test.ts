@@ -0,0 +1,99 @@
+/**
+ * LeonardoClient request building and error reporting, checked with a
+ * recording fetch so nothing reaches the network.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LeonardoClient, LeonardoApiError, LeonardoNetworkError, LEONARDO_API_BASE_URL } from '../leonardoClient';
+
+interface RecordedCall {
+  url: string;
+  init: RequestInit;
+}
+
+// A fetch that records its calls and answers every one with the same response
+const recordingFetch = (status: number, body: string) => {
+  const calls: RecordedCall[] = [];
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return new Response(body, { status });
+  }) as unknown as typeof fetch;
+  return { calls, fetchImpl };
+};
+
+describe('buildRequest', () => {
+  it('joins the base URL and path, dropping a trailing slash', () => {
+    const client = new LeonardoClient({ apiKey: 'key', baseUrl: 'http://localhost:8799/api/rest/v1/' });
+    expect(client.buildRequest('GET', '/me').url).toBe('http://localhost:8799/api/rest/v1/me');
+    expect(new LeonardoClient({ apiKey: 'key' }).buildRequest('GET', '/me').url).toBe(`${LEONARDO_API_BASE_URL}/me`);
+  });
+
+  it('sends the API key and asks for JSON', () => {
+    const { init } = new LeonardoClient({ apiKey: 'secret' }).buildRequest('GET', '/me');
+    expect(init.method).toBe('GET');
+    expect(init.headers).toEqual({ 'Authorization': 'Bearer secret', 'accept': 'application/json' });
+    expect(init.body).toBeUndefined();
+  });
+
+  it('serialises a body as JSON with a content type', () => {
+    const body = { prompt: 'a cat', num_images: 2, seed: null };
+    const { init } = new LeonardoClient({ apiKey: 'secret' }).buildRequest('POST', '/generations', body);
+    expect(init.method).toBe('POST');
+    expect((init.headers as Record<string, string>)['Content-Type']).toBe('application/json');
+    expect(JSON.parse(init.body as string)).toEqual(body);
+  });
+});
+
+describe('requests', () => {
+  it('sends what buildRequest builds and returns the parsed response', async () => {
+    const { calls, fetchImpl } = recordingFetch(200, JSON.stringify({ sdGenerationJob: { generationId: 'gen-1' } }));
+    const client = new LeonardoClient({ apiKey: 'secret', fetch: fetchImpl });
+    const response = await client.createGeneration({ prompt: 'a cat', modelId: 'model-1' });
+
+    expect(response.sdGenerationJob.generationId).toBe('gen-1');
+    expect(calls).toHaveLength(1);
+    expect(calls[0].url).toBe(`${LEONARDO_API_BASE_URL}/generations`);
+    expect(JSON.parse(calls[0].init.body as string)).toEqual({ prompt: 'a cat', modelId: 'model-1' });
+  });
+
+  it('raises a LeonardoApiError carrying the status, endpoint and raw body', async () => {
+    const { fetchImpl } = recordingFetch(429, '{"error":"Too many requests"}');
+    const client = new LeonardoClient({ apiKey: 'secret', fetch: fetchImpl });
+    const error = await client.getGeneration('gen-1').catch(e => e);
+
+    expect(error).toBeInstanceOf(LeonardoApiError);
+    expect(error.status).toBe(429);
+    expect(error.endpoint).toBe('GET /generations/gen-1');
+    expect(error.body).toBe('{"error":"Too many requests"}');
+    expect(error.message).toBe('Leonardo API error 429 on GET /generations/gen-1: {"error":"Too many requests"}');
+  });
+
+  it('raises a LeonardoNetworkError only when fetch itself fails', async () => {
+    const failingFetch = (error: Error) => (async () => { throw error; }) as unknown as typeof fetch;
+    const offline = new LeonardoClient({ apiKey: 'secret', fetch: failingFetch(new TypeError('Failed to fetch')) });
+    const error = await offline.getGeneration('gen-1').catch(e => e);
+
+    expect(error).toBeInstanceOf(LeonardoNetworkError);
+    expect(error.message).toBe('Network error on GET /generations/gen-1: Failed to fetch');
+
+    const abort = new DOMException('Aborted', 'AbortError');
+    const aborted = new LeonardoClient({ apiKey: 'secret', fetch: failingFetch(abort) });
+    await expect(aborted.getGeneration('gen-1')).rejects.toBe(abort);
+  });
+
+  it('finds the user ID in each known /me shape', async () => {
+    const shapes = [
+      { user_details: [{ user: { id: 'u1' } }] },
+      { user_details: { id: 'u1' } },
+      { id: 'u1' },
+      { user: { id: 'u1' } },
+      { userId: 'u1' },
+    ];
+    for (const shape of shapes) {
+      const { fetchImpl } = recordingFetch(200, JSON.stringify(shape));
+      expect(await new LeonardoClient({ apiKey: 'secret', fetch: fetchImpl }).getUserId()).toBe('u1');
+    }
+    const { fetchImpl } = recordingFetch(200, '{}');
+    expect(await new LeonardoClient({ apiKey: 'secret', fetch: fetchImpl }).getUserId()).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Model config schema: the runtime validator accepts the shipped registry
+ * and JSON entries shaped like it, and names each problem in a bad entry.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MODEL_CONFIG, validateModelConfigEntry, validateModelRegistry, parseModelConfigEntry, getVideoAspectRatio, getVideoDimensions } from '../modelConfig';
+
+// A JSON copy of the first shipped entry of a node type, to break without touching the registry
+const entryOf = (nodeType: string): Record<string, any> => {
+  const entry = Object.values(MODEL_CONFIG).find(config => config.nodeType === nodeType && config.family !== 'AUTO');
+  return JSON.parse(JSON.stringify(entry));
+};
+
+const IMAGE_TO_VIDEO = { id: null, nodeType: 'image-to-video', family: 'MOTION', supports: {}, defaults: { motionStrength: 5 } };
+
+describe('validateModelConfigEntry', () => {
+  it('accepts every shipped entry and a registry without conflicts', () => {
+    for (const [name, entry] of Object.entries(MODEL_CONFIG)) {
+      expect(validateModelConfigEntry(name, entry)).toEqual([]);
+    }
+    expect(validateModelRegistry()).toEqual([]);
+    expect(validateModelConfigEntry('Motion', IMAGE_TO_VIDEO)).toEqual([]);
+  });
+
+  it('rejects entries that are not objects or have an unknown node type', () => {
+    expect(validateModelConfigEntry('Bad', null)).toEqual(['Bad: entry must be an object']);
+    expect(validateModelConfigEntry('Bad', { ...entryOf('image-generation'), nodeType: 'audio' })).toEqual(['Bad: unknown nodeType "audio"']);
+  });
+
+  it('reports each shape problem of the common fields', () => {
+    const entry = { ...entryOf('image-generation'), id: 42, family: undefined, supports: [], defaults: 'none' };
+    expect(validateModelConfigEntry('Bad', entry)).toEqual([
+      'Bad: id must be a string or null',
+      'Bad: family must be a string',
+      'Bad: supports must be an object',
+      'Bad: defaults must be an object',
+    ]);
+  });
+
+  it('rejects unknown guidance, maxInputs below 1 and unknown aspect ratios', () => {
+    const entry = entryOf('image-generation');
+    entry.supports.aspectRatios = ['1:1', '7:3'];
+    entry.supports.guidance = {
+      'Style Reference': { maxInputs: 0, preprocessorId: 67 },
+      'Depth Reference': { maxInputs: 1, preprocessorId: 1 },
+      'Content Reference': { maxInputs: 1 },
+    };
+    expect(validateModelConfigEntry('Bad', entry)).toEqual([
+      'Bad: aspect ratio "7:3" is not in ASPECT_RATIO_DIMENSIONS',
+      'Bad: Style Reference maxInputs must be an integer of at least 1',
+      'Bad: unknown guidance "Depth Reference"',
+      'Bad: Content Reference has no preprocessor ID',
+    ]);
+  });
+
+  it('checks video resolutions and defaults', () => {
+    const entry = entryOf('text-to-video');
+    entry.supports.resolutions = ['RESOLUTION_4K'];
+    entry.defaults.frameInterpolation = 'yes';
+    expect(validateModelConfigEntry('Bad', entry)).toEqual([
+      'Bad: resolution "RESOLUTION_4K" is not in VIDEO_RESOLUTIONS',
+      `Bad: default resolution "${entry.defaults.resolution}" is not supported`,
+      'Bad: defaults.frameInterpolation and defaults.promptEnhance must be booleans',
+    ]);
+    expect(validateModelConfigEntry('Bad', { ...IMAGE_TO_VIDEO, defaults: { motionStrength: 11 } }))
+      .toEqual(['Bad: defaults.motionStrength must be a number between 1 and 10']);
+  });
+});
+
+describe('parseModelConfigEntry', () => {
+  it('returns a valid entry parsed from JSON', () => {
+    const entry = JSON.parse(JSON.stringify(IMAGE_TO_VIDEO));
+    expect(parseModelConfigEntry('Motion', entry)).toBe(entry);
+  });
+
+  it('throws with every problem in an invalid entry', () => {
+    const entry = { ...entryOf('image-generation'), id: 42, family: 7 };
+    expect(() => parseModelConfigEntry('Bad', entry))
+      .toThrow('Invalid model config:\nBad: id must be a string or null\nBad: family must be a string');
+  });
+});
+
+describe('getVideoAspectRatio', () => {
+  it('snaps image aspect ratios to the video ratio of the same orientation', () => {
+    expect(['1:1', '4:3', '16:9', '3:4', '9:16', 'unknown'].map(getVideoAspectRatio))
+      .toEqual(['16:9', '16:9', '16:9', '9:16', '9:16', '16:9']);
+    expect(getVideoDimensions('RESOLUTION_720', '3:4')).toEqual({ width: 720, height: 1280 });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Prompt enhancement: the rule-based recommendations Auto falls back to,
+ * parsing of LLM responses and the provider factory's configuration checks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzePromptRecommendations,
+  parseEnhancementResponse,
+  createPromptEnhancer,
+  getPromptEnhancerConfigError,
+  DEFAULT_PROMPT_ENHANCER_SETTINGS,
+  PromptEnhancerId,
+} from '../promptEnhancer';
+import { LeonardoClient } from '../leonardoClient';
+
+const settingsFor = (provider: PromptEnhancerId, overrides = {}) => ({ ...DEFAULT_PROMPT_ENHANCER_SETTINGS, provider, ...overrides });
+const noKeys = { geminiApiKey: null, leonardoClient: null };
+
+describe('analyzePromptRecommendations', () => {
+  it('reports short and long quoted text', () => {
+    expect(analyzePromptRecommendations('a sign that says "OPEN"')).toBe('NEEDS TEXT SHORT,');
+    expect(analyzePromptRecommendations('a poster with "Summer Sale Starts Today"')).toBe('NEEDS TEXT LONG,');
+    expect(analyzePromptRecommendations("a banner reading 'Grand Opening'")).toBe('NEEDS TEXT SHORT,');
+  });
+
+  it('reports an unquoted word after says, saying, reading or written as short text', () => {
+    for (const prompt of ['a shop sign that says OPEN', 'a note saying hello', 'a plaque reading Welcome', 'a door with PRIVATE written across it', 'a wall written CLOSED']) {
+      expect(analyzePromptRecommendations(prompt), prompt).toBe('NEEDS TEXT SHORT,');
+    }
+  });
+
+  it('does not mistake apostrophes or ordinary phrases for text', () => {
+    expect(analyzePromptRecommendations("a dog's bowl next to it's bed")).toBe('');
+    expect(analyzePromptRecommendations('a girl reading books by the window')).toBe('');
+    expect(analyzePromptRecommendations('a sign in a forest')).toBe('');
+  });
+
+  it('reports a long-text cue next to a text cue, without quotes', () => {
+    expect(analyzePromptRecommendations('a chalkboard sign with the menu outside a cafe')).toBe('NEEDS TEXT LONG,');
+    expect(analyzePromptRecommendations('a story written in the stars')).toBe('NEEDS TEXT LONG,');
+    expect(analyzePromptRecommendations('a chalkboard menu outside a cafe')).toBe('');
+  });
+
+  it('reports edit and reference cues', () => {
+    expect(analyzePromptRecommendations('remove the car from this photo')).toBe('IMAGE EDIT,');
+    expect(analyzePromptRecommendations('a castle in the style of Monet with the same composition'))
+      .toBe('STYLE REF,\nCONTENT REF,');
+    expect(analyzePromptRecommendations('the same knight riding a horse')).toBe('CHARACTER REF,');
+  });
+});
+
+describe('parseEnhancementResponse', () => {
+  it('extracts the updated prompt and recommendations', () => {
+    const response = 'Sure!\n<updated_prompt>\n a red fox at dawn \n</updated_prompt>\n<recommendations>\nSTYLE REF,\nCONTENT REF,\n</recommendations>';
+    expect(parseEnhancementResponse(response, 'a fox')).toEqual({
+      enhancedPrompt: 'a red fox at dawn',
+      recommendations: 'STYLE REF,\nCONTENT REF,',
+    });
+  });
+
+  it('falls back to the original prompt and the default recommendation for missing tags', () => {
+    expect(parseEnhancementResponse('<recommendations>IMAGE EDIT,</recommendations>', 'a fox'))
+      .toEqual({ enhancedPrompt: 'a fox', recommendations: 'IMAGE EDIT,' });
+    expect(parseEnhancementResponse('<updated_prompt>a red fox</updated_prompt>', 'a fox'))
+      .toEqual({ enhancedPrompt: 'a red fox', recommendations: 'STYLE REF,' });
+    expect(parseEnhancementResponse('no tags at all', 'a fox')).toEqual({ enhancedPrompt: 'a fox', recommendations: 'STYLE REF,' });
+  });
+});
+
+describe('createPromptEnhancer', () => {
+  it('throws the configuration error of a provider that is not set up', () => {
+    expect(() => createPromptEnhancer(settingsFor('gemini'), noKeys)).toThrow('Google Gemini API key');
+    expect(() => createPromptEnhancer(settingsFor('leonardo'), noKeys)).toThrow('Leonardo AI API key');
+    expect(() => createPromptEnhancer(settingsFor('openai-compatible', { openAiModel: '' }), noKeys))
+      .toThrow('OpenAI-compatible base URL and model');
+  });
+
+  it('creates the chosen provider once it is configured', () => {
+    const leonardoClient = new LeonardoClient({ apiKey: 'test' });
+    expect(getPromptEnhancerConfigError(settingsFor('rule-based'), noKeys)).toBeNull();
+    expect(createPromptEnhancer(settingsFor('rule-based'), noKeys).id).toBe('rule-based');
+    expect(createPromptEnhancer(settingsFor('leonardo'), { ...noKeys, leonardoClient }).id).toBe('leonardo');
+    expect(createPromptEnhancer(settingsFor('openai-compatible'), noKeys).id).toBe('openai-compatible');
+  });
+
+  it('enhances offline with the rule-based provider', async () => {
+    const result = await createPromptEnhancer(settingsFor('rule-based'), noKeys).enhance('a shop sign that says OPEN.');
+    expect(result).toEqual({
+      enhancedPrompt: 'a shop sign that says OPEN, highly detailed, rich colors, balanced composition, soft natural lighting',
+      recommendations: 'NEEDS TEXT SHORT,',
+    });
+  });
+});
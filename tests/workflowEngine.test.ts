@@ -0,0 +1,158 @@
+/**
+ * Workflow engine: graph validation, topological ordering and the run
+ * scheduler, against a stubbed LeonardoClient that finishes every
+ * generation on its first poll.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { topologicalSort, validateWorkflow, runWorkflow, WorkflowEvent } from '../workflowEngine';
+import { LeonardoClient, CreateGenerationRequest } from '../leonardoClient';
+import { Workflow } from '../types';
+import { node, wire } from './workflowFixtures';
+
+const FAST_POLL = { initialDelayMs: 1, maxDelayMs: 1, jitterRatio: 0 };
+
+const prompt = (id: string, text: string) => node(id, 'input-text', { text });
+const generate = (id: string) => node(id, 'image-generation');
+const edit = (id: string) => node(id, 'image-edit');
+
+// Prompt -> generation -> edit, with the edit prompted by the same text node
+const chain = (suffix: string, text: string): Workflow => ({
+  nodes: [prompt(`t${suffix}`, text), generate(`g${suffix}`), edit(`e${suffix}`)],
+  connections: [
+    wire(`t${suffix}`, 'Text', `g${suffix}`, 'Prompt', 'text'),
+    wire(`t${suffix}`, 'Text', `e${suffix}`, 'Prompt', 'text'),
+    wire(`g${suffix}`, 'Image', `e${suffix}`, 'Image to Edit', 'image'),
+  ],
+});
+
+const merge = (...workflows: Workflow[]): Workflow => ({
+  nodes: workflows.flatMap(w => w.nodes),
+  connections: workflows.flatMap(w => w.connections),
+});
+
+interface StubOptions {
+  failPrompt?: string; // createGeneration rejects for this prompt
+  neverFinish?: boolean; // Generations stay PENDING
+  onCreate?: (request: CreateGenerationRequest) => Promise<void> | void;
+}
+
+const stubClient = ({ failPrompt, neverFinish, onCreate }: StubOptions = {}): LeonardoClient => {
+  let nextId = 1;
+  const client = {
+    createGeneration: async (request: CreateGenerationRequest) => {
+      await onCreate?.(request);
+      if (request.prompt === failPrompt) throw new Error(`Rejected: ${request.prompt}`);
+      return { sdGenerationJob: { generationId: `gen-${nextId++}` } };
+    },
+    getGeneration: async (generationId: string) => ({
+      generations_by_pk: neverFinish
+        ? { id: generationId, status: 'PENDING', generated_images: [] }
+        : { id: generationId, status: 'COMPLETE', generated_images: [{ id: `${generationId}-img`, url: `https://cdn.test/${generationId}.png` }] },
+    }),
+  };
+  return client as unknown as LeonardoClient;
+};
+
+describe('topologicalSort', () => {
+  it('orders every node after its parents', () => {
+    const workflow = chain('', 'a cat');
+    expect(topologicalSort(workflow)).toEqual(['t', 'g', 'e']);
+  });
+
+  it('names the nodes of a cycle', () => {
+    const workflow: Workflow = {
+      nodes: [edit('a'), edit('b')],
+      connections: [wire('a', 'Image', 'b', 'Image to Edit', 'image'), wire('b', 'Image', 'a', 'Image to Edit', 'image')],
+    };
+    expect(() => topologicalSort(workflow)).toThrow('Workflow has a cycle through: Image Edit (a), Image Edit (b)');
+  });
+});
+
+describe('validateWorkflow', () => {
+  it('accepts a complete graph', () => {
+    expect(validateWorkflow(chain('', 'a cat'))).toEqual([]);
+  });
+
+  it('reports missing connectors, type mismatches and missing inputs', () => {
+    const workflow: Workflow = {
+      nodes: [prompt('t', 'a cat'), generate('g')],
+      connections: [
+        wire('t', 'Text', 'g', 'Nope', 'text'),
+        wire('t', 'Text', 'g', 'Style Reference 1', 'text'),
+      ],
+    };
+    const problems = validateWorkflow(workflow);
+    expect(problems).toContain('Image Generation (g) has no connector "Nope".');
+    expect(problems).toContain('Text (t) "Text" (text) cannot feed Image Generation (g) "Style Reference 1" (image).');
+    expect(problems).toContain('Image Generation (g) needs a "Prompt" input.');
+  });
+
+  it('rejects the Auto model', () => {
+    const workflow: Workflow = {
+      nodes: [prompt('t', 'a cat'), node('g', 'image-generation', { model: 'Auto' })],
+      connections: [wire('t', 'Text', 'g', 'Prompt', 'text')],
+    };
+    expect(validateWorkflow(workflow)).toEqual(['Image Generation (g) needs a specific model; "Auto" cannot be used in a workflow.']);
+  });
+});
+
+describe('runWorkflow', () => {
+  it('rejects an invalid workflow before calling the API', async () => {
+    const workflow: Workflow = { nodes: [generate('g')], connections: [] };
+    await expect(runWorkflow(workflow, stubClient())).rejects.toThrow('Workflow cannot run');
+  });
+
+  it('runs the graph in order and stores tagged outputs', async () => {
+    const result = await runWorkflow(chain('', 'a cat'), stubClient(), { runId: 7, poll: FAST_POLL });
+    expect(result.status).toBe('completed');
+    expect(result.errors).toEqual({});
+    const edited = result.nodes.find(n => n.id === 'e')!;
+    expect(edited.status).toBe('completed');
+    expect(edited.outputData).toEqual([expect.objectContaining({ sourceType: 'generated', runId: 7 })]);
+  });
+
+  it('never runs more nodes at once than the concurrency cap', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const onCreate = async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+    };
+    const workflow = merge(chain('1', 'one'), chain('2', 'two'), chain('3', 'three'));
+    const result = await runWorkflow(workflow, stubClient({ onCreate }), { concurrency: 2, poll: FAST_POLL });
+    expect(result.status).toBe('completed');
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('skips the children of a failed node while unrelated branches complete', async () => {
+    const events: WorkflowEvent[] = [];
+    const workflow = merge(chain('1', 'broken'), chain('2', 'fine'));
+    const result = await runWorkflow(workflow, stubClient({ failPrompt: 'broken' }), {
+      poll: FAST_POLL,
+      onEvent: event => events.push(event),
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.errors.g1).toContain('Rejected: broken');
+    expect(result.errors.e1).toBe('Skipped because an upstream node failed.');
+    expect(result.nodes.find(n => n.id === 'e2')!.status).toBe('completed');
+    expect(result.errors.e2).toBeUndefined();
+    // Skipped nodes are reported so the UI can show them
+    expect(events).toContainEqual(expect.objectContaining({
+      type: 'node-status', nodeId: 'e1', status: 'idle', error: 'Skipped because an upstream node failed.',
+    }));
+  });
+
+  it('stops on abort and reports the run as cancelled', async () => {
+    const controller = new AbortController();
+    const client = stubClient({ neverFinish: true, onCreate: () => { setTimeout(() => controller.abort(), 5); } });
+    const result = await runWorkflow(chain('', 'a cat'), client, { signal: controller.signal, poll: FAST_POLL });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.errors).toEqual({ g: 'Cancelled.', e: 'Cancelled.' });
+    expect(result.nodes.map(n => n.status)).toEqual(['completed', 'idle', 'idle']);
+  });
+});
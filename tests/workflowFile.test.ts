@@ -0,0 +1,133 @@
+/**
+ * Workflow file format: serialise and parse round trips, migration of
+ * unversioned drafts, validation messages and embedded input media.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { serializeWorkflow, parseWorkflowFile, migrateWorkflowFile, validateWorkflowFile, WORKFLOW_FILE_FORMAT, WORKFLOW_FILE_VERSION } from '../workflowFile';
+import { NODE_TYPES } from '../constants';
+import { Workflow } from '../types';
+import { node, wire } from './workflowFixtures';
+
+// Text prompt and an image reference feeding one generation
+const workflow = (imageSettings: Record<string, any> = {}): Workflow => ({
+  nodes: [
+    { ...node('t', 'input-text', { text: 'a cat' }), status: 'completed' },
+    node('i', 'input-image', { src: 'https://cdn.test/ref.png', fileName: 'ref.png', mediaId: 'init-1', ...imageSettings }),
+    { ...node('g', 'image-generation'), exposedConnectors: { 'Style Reference': 2 } },
+  ],
+  connections: [
+    wire('t', 'Text', 'g', 'Prompt', 'text'),
+    wire('i', 'Image', 'g', 'Style Reference 1', 'image'),
+  ],
+});
+
+// A fetch that answers every URL with the same image bytes
+const imageFetch = (async () => new Response(new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' }))) as unknown as typeof fetch;
+
+describe('serializeWorkflow and parseWorkflowFile', () => {
+  it('round-trip a workflow without its run state', async () => {
+    const file = await serializeWorkflow(workflow(), { name: 'Cats', transform: { x: 1, y: 2, scale: 0.5 } });
+    expect(file).toMatchObject({ format: WORKFLOW_FILE_FORMAT, version: WORKFLOW_FILE_VERSION, name: 'Cats' });
+    expect(file.nodes[0]).not.toHaveProperty('status');
+
+    const loaded = parseWorkflowFile(JSON.stringify(file));
+    expect(loaded.name).toBe('Cats');
+    expect(loaded.transform).toEqual({ x: 1, y: 2, scale: 0.5 });
+    expect(loaded.workflow.connections).toEqual(workflow().connections);
+    expect(loaded.workflow.nodes.map(n => n.status)).toEqual(['idle', 'idle', 'idle']);
+    expect(loaded.workflow.nodes[1].settings).toMatchObject({ src: 'https://cdn.test/ref.png', mediaId: 'init-1' });
+    expect(loaded.workflow.nodes[2].exposedConnectors).toEqual({ 'Style Reference': 2 });
+  });
+
+  it('drops object URLs, which do not outlive the page', async () => {
+    const file = await serializeWorkflow(workflow({ src: 'blob:http://localhost/1234' }));
+    expect(file.nodes[1].settings).not.toHaveProperty('src');
+  });
+
+  it('embeds input media and uses it in place of the upload ID on load', async () => {
+    const file = await serializeWorkflow(workflow(), { embedMedia: true, fetch: imageFetch });
+    expect(file.media).toEqual({ i: { dataUrl: 'data:image/png;base64,AQID', fileName: 'ref.png' } });
+    expect(file.nodes[1].settings).not.toHaveProperty('src');
+
+    const settings = parseWorkflowFile(JSON.stringify(file)).workflow.nodes[1].settings;
+    expect(settings.src).toBe('data:image/png;base64,AQID');
+    expect(settings.fileName).toBe('ref.png');
+    expect(settings).not.toHaveProperty('mediaId');
+  });
+
+  it('embeds only the media of the nodes picked', async () => {
+    const file = await serializeWorkflow(workflow(), { embedMedia: n => n.id === 'none', fetch: imageFetch });
+    expect(file.media).toBeUndefined();
+    expect(file.nodes[1].settings.src).toBe('https://cdn.test/ref.png');
+
+    const picked = await serializeWorkflow(workflow(), { embedMedia: n => n.id === 'i', fetch: imageFetch });
+    expect(Object.keys(picked.media!)).toEqual(['i']);
+  });
+
+  it('reports media it cannot fetch', async () => {
+    const missing = (async () => new Response('', { status: 404 })) as unknown as typeof fetch;
+    await expect(serializeWorkflow(workflow(), { embedMedia: true, fetch: missing })).rejects.toThrow('Could not read ref.png: HTTP 404');
+  });
+});
+
+describe('migrateWorkflowFile', () => {
+  it('reads a bare draft as version 0 and upgrades it', () => {
+    const draft = { nodes: [node('t', 'input-text')], connections: [], transform: { x: 0, y: 0, scale: 1 } };
+    expect(migrateWorkflowFile(draft)).toMatchObject({ format: WORKFLOW_FILE_FORMAT, version: 1, ...draft });
+
+    const loaded = parseWorkflowFile(JSON.stringify({ nodes: [{ id: 't', typeKey: 'input-text', position: { x: 0, y: 0 } }], connections: [] }));
+    expect(loaded.workflow.nodes[0].settings).toEqual(NODE_TYPES['input-text'].defaultSettings);
+  });
+
+  it('rejects files from a newer version or another format', () => {
+    expect(() => migrateWorkflowFile({ format: WORKFLOW_FILE_FORMAT, version: WORKFLOW_FILE_VERSION + 1 }))
+      .toThrow('saved by a newer version of the app');
+    expect(() => migrateWorkflowFile({ format: 'something-else', version: 1 })).toThrow('unknown format "something-else"');
+    expect(() => migrateWorkflowFile([])).toThrow('expected a JSON object');
+  });
+});
+
+describe('validateWorkflowFile', () => {
+  const fileWith = (nodes: unknown[], connections: unknown[] = []) => ({ format: WORKFLOW_FILE_FORMAT, version: 1, nodes, connections });
+  const fileNode = (id: string, typeKey: unknown) => ({ id, typeKey, position: { x: 0, y: 0 }, settings: {} });
+
+  it('accepts a serialised workflow', async () => {
+    expect(validateWorkflowFile(JSON.parse(JSON.stringify(await serializeWorkflow(workflow()))))).toEqual([]);
+  });
+
+  it('reports duplicate IDs and bad type keys', () => {
+    const errors = validateWorkflowFile(fileWith([fileNode('a', 'input-text'), fileNode('a', 'input-text'), fileNode('b', 'no-such-node'), fileNode('c', 42)]));
+    expect(errors).toEqual([
+      'Node a: duplicate id',
+      'Node b: unknown typeKey "no-such-node"',
+      'Node c: typeKey must be a string',
+    ]);
+  });
+
+  it('reports missing nodes, unknown connectors and type mismatches', () => {
+    const nodes = [fileNode('t', 'input-text'), fileNode('i', 'input-image'), fileNode('g', 'image-generation')];
+    const errors = validateWorkflowFile(fileWith(nodes, [
+      wire('t', 'Text', 'x', 'Prompt', 'text'),
+      wire('t', 'Words', 'g', 'Prompt', 'text'),
+      wire('t', 'Text', 'g', 'Nope', 'text'),
+      wire('i', 'Image', 'g', 'Prompt', 'image'),
+      { from: { nodeId: 't', connectorName: 7 }, to: { nodeId: 'g', connectorName: 'Prompt' }, dataType: 'text' },
+      { from: { nodeId: 't' } },
+    ]));
+    expect(errors).toEqual([
+      'Connection 1: refers to missing node "x"',
+      'Connection 2: input-text has no output "Words"',
+      'Connection 3: image-generation has no input "Nope"',
+      'Connection 4: image output "Image" cannot connect to text input "Prompt"',
+      'Connection 5: connector names must be strings',
+      'Connection 6: must have from and to',
+    ]);
+  });
+
+  it('makes parseWorkflowFile throw with every problem', () => {
+    const json = JSON.stringify(fileWith([fileNode('a', 'nope'), { id: 'b' }]));
+    expect(() => parseWorkflowFile(json)).toThrow('Invalid workflow file:\nNode a: unknown typeKey "nope"\nNode b: typeKey must be a string\nNode b: position must have numeric x and y');
+    expect(() => parseWorkflowFile('{')).toThrow('Invalid workflow JSON');
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Workflow fixtures shared by the workflow tests: nodes built from the node
+ * registry's default settings and the connections between them.
+ */
+
+import { NODE_TYPES } from '../constants';
+import { Connection, NodeData } from '../types';
+
+export const node = (id: string, typeKey: string, settings: Record<string, any> = {}, position = { x: 0, y: 0 }): NodeData => ({
+  id,
+  typeKey,
+  position,
+  settings: { ...NODE_TYPES[typeKey].defaultSettings, ...settings },
+});
+
+export const wire = (fromId: string, fromName: string, toId: string, toName: string, dataType: Connection['dataType']): Connection => ({
+  from: { nodeId: fromId, connectorName: fromName },
+  to: { nodeId: toId, connectorName: toName },
+  dataType,
+});
@@ -0,0 +1,192 @@
+/**
+ * Workflow edit history: commands worked out from before and after
+ * snapshots, undo and redo through applyCommand, coalescing of drag steps
+ * and the history limit.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCommand, applyCommand, WorkflowHistory, WorkflowCommand, MAX_HISTORY } from '../workflowHistory';
+import { Workflow } from '../types';
+import { node, wire } from './workflowFixtures';
+
+const textWire = (fromId: string, toId: string, toName = 'Prompt') => wire(fromId, 'Text', toId, toName, 'text');
+
+const base = (): Workflow => ({
+  nodes: [node('a', 'input-text'), node('b', 'input-text', {}, { x: 100, y: 0 }), node('g', 'image-generation', {}, { x: 200, y: 0 })],
+  connections: [textWire('a', 'g')],
+});
+
+const moved = (workflow: Workflow, id: string, x: number): Workflow => ({
+  ...workflow,
+  nodes: workflow.nodes.map(n => n.id === id ? { ...n, position: { x, y: 0 } } : n),
+});
+
+// Record the edit from before to after and return after, as the builder does
+const edit = (history: WorkflowHistory, label: string, before: Workflow, after: Workflow, coalesceKey?: string): Workflow => {
+  const command = createCommand(label, before, after, coalesceKey);
+  if (command) history.record(command);
+  return after;
+};
+
+const undo = (history: WorkflowHistory, workflow: Workflow) => applyCommand(workflow, history.undo()!, 'undo');
+const redo = (history: WorkflowHistory, workflow: Workflow) => applyCommand(workflow, history.redo()!, 'redo');
+
+const ids = (workflow: Workflow) => workflow.nodes.map(n => n.id);
+
+describe('createCommand', () => {
+  it('is null when nothing the user edits changed', () => {
+    const before = base();
+    const after = { ...before, nodes: before.nodes.map(n => ({ ...n, status: 'completed' as const, outputData: [] })) };
+    expect(createCommand('Run', before, after)).toBeNull();
+  });
+
+  it('records added, removed and changed nodes with their list positions', () => {
+    const before = base();
+    const after: Workflow = {
+      nodes: [before.nodes[0], { ...before.nodes[2], position: { x: 5, y: 5 } }, node('c', 'input-text')],
+      connections: before.connections,
+    };
+    const command = createCommand('Edit', before, after)!;
+    expect(command.nodes.map(change => [change.id, !!change.before, !!change.after, change.index])).toEqual([
+      ['b', true, false, 1],
+      ['g', true, true, 2],
+      ['c', false, true, 2],
+    ]);
+  });
+});
+
+describe('applyCommand', () => {
+  it('undoes and redoes an edit', () => {
+    const before = base();
+    const after = moved(before, 'b', 500);
+    const command = createCommand('Move', before, after)!;
+    expect(applyCommand(after, command, 'undo')).toEqual(before);
+    expect(applyCommand(before, command, 'redo')).toEqual(after);
+  });
+
+  it('undoes an Input Singularity replacement, bringing back the connection it removed', () => {
+    const before = base();
+    // Connecting b to the occupied Prompt input replaces a's connection
+    const after: Workflow = { ...before, connections: [textWire('b', 'g')] };
+    const command = createCommand('Connect', before, after)!;
+    expect(command.connectionsAdded).toEqual([textWire('b', 'g')]);
+    expect(command.connectionsRemoved).toEqual([textWire('a', 'g')]);
+
+    expect(applyCommand(after, command, 'undo').connections).toEqual([textWire('a', 'g')]);
+    expect(applyCommand(before, command, 'redo').connections).toEqual([textWire('b', 'g')]);
+  });
+
+  it('puts an undone delete back at its original place in the list', () => {
+    const before = base();
+    const after: Workflow = { nodes: [before.nodes[0], before.nodes[2]], connections: before.connections };
+    const restored = applyCommand(after, createCommand('Delete', before, after)!, 'undo');
+    expect(ids(restored)).toEqual(['a', 'b', 'g']);
+  });
+
+  it('keeps run state that is not part of the command', () => {
+    const before = base();
+    const command = createCommand('Move', before, moved(before, 'g', 300))!;
+    const running = { ...before, nodes: before.nodes.map(n => n.id === 'g' ? { ...n, status: 'running' as const } : n) };
+    const result = applyCommand(running, command, 'redo');
+    expect(result.nodes[2]).toMatchObject({ status: 'running', position: { x: 300, y: 0 } });
+  });
+});
+
+describe('WorkflowHistory', () => {
+  it('undoes and redoes in order, and a new edit clears redo', () => {
+    const history = new WorkflowHistory();
+    let workflow = base();
+    workflow = edit(history, 'Move a', workflow, moved(workflow, 'a', 10));
+    workflow = edit(history, 'Move b', workflow, moved(workflow, 'b', 20));
+    expect(history.undoLabel).toBe('Move b');
+
+    workflow = undo(history, workflow);
+    expect(workflow.nodes[1].position.x).toBe(100);
+    expect(history.redoLabel).toBe('Move b');
+    workflow = redo(history, workflow);
+    expect(workflow.nodes[1].position.x).toBe(20);
+
+    workflow = undo(history, workflow);
+    edit(history, 'Move g', workflow, moved(workflow, 'g', 30));
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('coalesces the steps of one drag into a single undo', () => {
+    const history = new WorkflowHistory();
+    const start = base();
+    let workflow = start;
+    for (const x of [10, 20, 30]) {
+      workflow = edit(history, 'Move', workflow, moved(workflow, 'a', x), 'drag-1');
+    }
+    workflow = undo(history, workflow);
+    expect(workflow).toEqual(start);
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('does not merge across an undo or a different key', () => {
+    const history = new WorkflowHistory();
+    let workflow = base();
+    workflow = edit(history, 'Move', workflow, moved(workflow, 'a', 10), 'drag-1');
+    workflow = edit(history, 'Move', workflow, moved(workflow, 'a', 20), 'drag-2');
+    workflow = undo(history, workflow);
+    workflow = redo(history, workflow);
+    edit(history, 'Move', workflow, moved(workflow, 'a', 30), 'drag-2');
+
+    const steps: WorkflowCommand[] = [];
+    while (history.canUndo) steps.push(history.undo()!);
+    expect(steps).toHaveLength(3);
+  });
+
+  it('starts a new step with the same key once coalescing ends', () => {
+    const history = new WorkflowHistory();
+    let workflow = base();
+    workflow = edit(history, 'Change settings', workflow, moved(workflow, 'a', 10), 'settings-a-x');
+    workflow = edit(history, 'Change settings', workflow, moved(workflow, 'a', 20), 'settings-a-x');
+    history.endCoalescing();
+    workflow = edit(history, 'Change settings', workflow, moved(workflow, 'a', 40), 'settings-a-x');
+
+    workflow = undo(history, workflow);
+    expect(workflow.nodes[0].position.x).toBe(20);
+    workflow = undo(history, workflow);
+    expect(workflow.nodes[0].position.x).toBe(0);
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('leaves nothing to undo for a node added and removed within one coalesced drag', () => {
+    const history = new WorkflowHistory();
+    const start = base();
+    const added = { ...start, nodes: [...start.nodes, node('c', 'input-text')], connections: [...start.connections, textWire('c', 'g', 'Negative Prompt')] };
+    let workflow = edit(history, 'Drag', start, added, 'drag-1');
+    workflow = edit(history, 'Drag', workflow, moved(start, 'a', 40), 'drag-1');
+
+    const command = history.undo()!;
+    expect(command.nodes.map(change => change.id)).toEqual(['a']);
+    expect(command.connectionsAdded).toEqual([]);
+    expect(command.connectionsRemoved).toEqual([]);
+    expect(applyCommand(workflow, command, 'undo')).toEqual(start);
+  });
+
+  it(`keeps at most ${MAX_HISTORY} steps, dropping the oldest`, () => {
+    const history = new WorkflowHistory();
+    let workflow = base();
+    for (let x = 1; x <= MAX_HISTORY + 5; x++) {
+      workflow = edit(history, `Move ${x}`, workflow, moved(workflow, 'a', x));
+    }
+    let undone = 0;
+    while (history.canUndo) {
+      workflow = undo(history, workflow);
+      undone++;
+    }
+    expect(undone).toBe(MAX_HISTORY);
+    expect(workflow.nodes[0].position.x).toBe(5);
+  });
+
+  it('forgets everything on clear', () => {
+    const history = new WorkflowHistory(2);
+    const workflow = base();
+    edit(history, 'Move', workflow, moved(workflow, 'a', 10));
+    history.undo();
+    history.clear();
+    expect([history.canUndo, history.canRedo]).toEqual([false, false]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * ZIP writer and export manifest: CRC32 against the standard check value,
+ * stored entries read back through the central directory, and CSV cells
+ * escaped for spreadsheets.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from '../zipArchive';
+import { manifestToCsv, ManifestEntry } from '../generationExport';
+import { bytes } from './byteFixtures';
+
+interface ReadEntry {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+}
+
+// Minimal reader for stored entries: end record -> central directory -> local headers
+const readZip = (buffer: ArrayBuffer): ReadEntry[] => {
+  const view = new DataView(buffer);
+  const end = buffer.byteLength - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054B50);
+  const count = view.getUint16(end + 10, true);
+  let central = view.getUint32(end + 16, true);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(central, true)).toBe(0x02014B50);
+    const crc = view.getUint32(central + 16, true);
+    const size = view.getUint32(central + 20, true);
+    const nameLength = view.getUint16(central + 28, true);
+    const local = view.getUint32(central + 42, true);
+    const name = new TextDecoder().decode(new Uint8Array(buffer, central + 46, nameLength));
+
+    expect(view.getUint32(local, true)).toBe(0x04034B50);
+    expect(view.getUint16(local + 8, true)).toBe(0); // stored
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    entries.push({ name, crc, data: new Uint8Array(buffer.slice(dataStart, dataStart + size)) });
+    central += 46 + nameLength;
+  }
+  return entries;
+};
+
+const manifestEntry = (overrides: Partial<ManifestEntry> = {}): ManifestEntry => ({
+  file: 'a-cat.png',
+  mediaId: 'img-1',
+  mediaType: 'image',
+  generationId: 'gen-1',
+  prompt: 'a cat',
+  enhancedPrompt: null,
+  model: 'Leonardo Phoenix',
+  actualModel: null,
+  seed: 42,
+  aspectRatio: '1:1',
+  style: null,
+  contrast: -1,
+  referenceConfig: null,
+  parentMediaId: null,
+  derivedBy: null,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const dataRow = (csv: string) => csv.split('\r\n')[1];
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xCBF43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry so it reads back unchanged', async () => {
+    const files = [
+      { name: 'manifest.csv', data: bytes('file,prompt\r\n') },
+      { name: 'images/café.png', data: new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0, 255]) },
+      { name: 'empty.txt', data: new Uint8Array() },
+    ];
+    const zip = createZip(files.map(file => ({ ...file, modified: new Date(2025, 0, 1) })));
+    expect(zip.type).toBe('application/zip');
+
+    const entries = readZip(await zip.arrayBuffer());
+    expect(entries.map(entry => entry.name)).toEqual(files.map(file => file.name));
+    entries.forEach((entry, i) => {
+      expect(entry.data).toEqual(files[i].data);
+      expect(entry.crc).toBe(crc32(files[i].data));
+    });
+  });
+});
+
+describe('manifestToCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    const csv = manifestToCsv([manifestEntry({ prompt: 'a "big", fluffy\ncat', referenceConfig: { type: 'style', count: 1 } })]);
+    expect(csv.startsWith('file,mediaId,mediaType,')).toBe(true);
+    expect(dataRow(csv)).toContain(',"a ""big"", fluffy\ncat",');
+    expect(dataRow(csv)).toContain(',"{""type"":""style"",""count"":1}",');
+  });
+
+  it('defuses text a spreadsheet would run as a formula', () => {
+    for (const prompt of ['=HYPERLINK("http://x")', '+1', '-1+2', '@SUM(A1)']) {
+      expect(dataRow(manifestToCsv([manifestEntry({ prompt })]))).toMatch(/,"?'[=+\-@]/);
+    }
+    expect(dataRow(manifestToCsv([manifestEntry({ prompt: '\tcat' })]))).toContain(",'\tcat,");
+    expect(dataRow(manifestToCsv([manifestEntry({ prompt: '\rcat' })]))).toContain(`,"'\rcat",`);
+  });
+
+  it('leaves numbers as they are', () => {
+    expect(dataRow(manifestToCsv([manifestEntry()]))).toContain(',42,1:1,,-1,');
+  });
+});
@@ -28,13 +28,33 @@ export interface NodeType {
   description?: string;
 }
 
+// Operation that turned a parent image into a derived MediaItem
+export type DerivedMediaKind = 'motion' | 'upscale' | 'unzoom' | 'nobg';
+
 export interface MediaItem {
   mediaId: string;
   url: string;
   type: 'image' | 'video';
-  sourceType: 'generated' | 'init';
+  sourceType: 'generated' | 'init' | 'variation'; // Variations come from upscale, unzoom or background removal
   timestamp: number;
   runId: number;
+  parentMediaId?: string; // Source image this item was derived from, e.g. by animating it
+  derivedBy?: DerivedMediaKind; // How it was derived from parentMediaId
+}
+
+// Curation data for one image, kept locally by mediaId
+export interface MediaCuration {
+  mediaId: string;
+  favorite: boolean;
+  tags: string[];
+  collectionIds: string[];
+}
+
+// A named group of images, e.g. a campaign board
+export interface MediaCollection {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
 export interface NodeData {
@@ -0,0 +1,108 @@
+/**
+ * Webhook Completion Listener
+ *
+ * Browser side of the webhook completion mode (API Guide §1.2). Leonardo.ai
+ * POSTs finished generations to the local receiver in server/webhookReceiver.mjs,
+ * which forwards them to this listener over Server-Sent Events. Jobs wait for
+ * their event by generationId instead of polling.
+ */
+
+import { Generation } from './leonardoClient';
+
+export const DEFAULT_WEBHOOK_RECEIVER_URL = 'http://localhost:8787';
+
+// Event forwarded by the receiver for each webhook callback; the receiver normalizes
+// the webhook payload into the same Generation shape that GET /generations/{id} returns
+export interface WebhookGenerationEvent {
+  generationId: string;
+  generation: Generation;
+  receivedAt: number;
+}
+
+type Waiter = (generation: Generation) => void;
+
+// Unclaimed events are dropped after this; a job that has not started waiting by then polls instead
+const RECEIVED_TTL_MS = 10 * 60 * 1000;
+
+export class WebhookListener {
+  private readonly eventSource: EventSource;
+  // Events can arrive before a job starts waiting, so keep them until claimed or expired
+  private readonly received = new Map<string, { generation: Generation; receivedAt: number }>();
+  private readonly waiters = new Map<string, Waiter>();
+
+  constructor(receiverUrl: string) {
+    this.eventSource = new EventSource(`${receiverUrl.replace(/\/$/, '')}/events`);
+    this.eventSource.addEventListener('generation', (message) => {
+      try {
+        const event: WebhookGenerationEvent = JSON.parse((message as MessageEvent).data);
+        this.deliver(event.generationId, event.generation);
+      } catch (error) {
+        console.warn('Ignoring malformed webhook event:', error);
+      }
+    });
+  }
+
+  get isConnected(): boolean {
+    return this.eventSource.readyState === EventSource.OPEN;
+  }
+
+  private deliver(generationId: string, generation: Generation) {
+    const waiter = this.waiters.get(generationId);
+    if (waiter) {
+      this.waiters.delete(generationId);
+      waiter(generation);
+    } else {
+      this.pruneReceived();
+      this.received.set(generationId, { generation, receivedAt: Date.now() });
+    }
+  }
+
+  // Events for generations nobody waits for (other tabs, jobs that fell back to polling) would pile up
+  private pruneReceived() {
+    const cutoff = Date.now() - RECEIVED_TTL_MS;
+    for (const [generationId, { receivedAt }] of this.received) {
+      if (receivedAt < cutoff) this.received.delete(generationId);
+    }
+  }
+
+  // Resolve with the generation once its webhook arrives, or null if none arrives within timeoutMs
+  waitForGeneration(generationId: string, timeoutMs: number, signal?: AbortSignal): Promise<Generation | null> {
+    this.pruneReceived();
+    const alreadyReceived = this.received.get(generationId);
+    if (alreadyReceived) {
+      this.received.delete(generationId);
+      return Promise.resolve(alreadyReceived.generation);
+    }
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.waiters.delete(generationId);
+      };
+      const timer = setTimeout(() => {
+        finish();
+        resolve(null);
+      }, timeoutMs);
+      const onAbort = () => {
+        finish();
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.set(generationId, (generation) => {
+        finish();
+        resolve(generation);
+      });
+    });
+  }
+
+  close() {
+    this.eventSource.close();
+    this.waiters.clear();
+    this.received.clear();
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Workflow Apps
+ *
+ * Publishes a workflow as a form-based mini app. The form shows only the
+ * input nodes marked "Expose as an input", with their instructions as help
+ * text; everything else keeps the values the designer set on the canvas.
+ * Running the app fills the exposed inputs in, runs the whole graph and
+ * shows only the terminal outputs: those of generation nodes whose outputs
+ * feed nothing else.
+ *
+ * The published workflow is stored with the workflow file format, so an
+ * exported .workflow.json can be opened as an app as well.
+ */
+
+import { NodeData, MediaItem, Workflow } from './types';
+import { NODE_TYPES } from './constants';
+import { serializeWorkflow, parseWorkflowFile, isPortableUrl, LoadedWorkflow } from './workflowFile';
+
+export const PUBLISHED_APP_STORAGE_KEY = 'workflow-app';
+
+export type AppInputType = 'text' | 'image' | 'video';
+
+export interface AppInput {
+  nodeId: string;
+  type: AppInputType;
+  label: string; // e.g. "Image 2" when several inputs share a type
+  instructions: string;
+}
+
+export interface AppInputValue {
+  text?: string;
+  src?: string;
+  fileName?: string;
+  mediaId?: string; // Leonardo init image ID for uploaded images
+}
+
+const INPUT_TYPES: Record<string, AppInputType> = {
+  'input-text': 'text',
+  'input-image': 'image',
+  'input-video': 'video',
+};
+
+// Top to bottom, then left to right, as the designer laid the canvas out
+const byCanvasPosition = (a: NodeData, b: NodeData) => a.position.y - b.position.y || a.position.x - b.position.x;
+
+export const getAppInputs = (workflow: Workflow): AppInput[] => {
+  const exposed = workflow.nodes.filter(node => INPUT_TYPES[node.typeKey] && node.settings.exposeAsInput).sort(byCanvasPosition);
+  return exposed.map(node => {
+    const type = INPUT_TYPES[node.typeKey];
+    const sameType = exposed.filter(other => INPUT_TYPES[other.typeKey] === type);
+    const name = NODE_TYPES[node.typeKey].name;
+    return {
+      nodeId: node.id,
+      type,
+      label: sameType.length > 1 ? `${name} ${sameType.indexOf(node) + 1}` : name,
+      instructions: String(node.settings.instructions || ''),
+    };
+  });
+};
+
+// The designer's values, used until the user changes them
+export const getDefaultAppValue = (node: NodeData): AppInputValue => {
+  const { text, src, fileName, mediaId } = node.settings;
+  return INPUT_TYPES[node.typeKey] === 'text' ? { text: text || '' } : { src, fileName, mediaId };
+};
+
+export const isAppValueFilled = (input: AppInput, value: AppInputValue | undefined): boolean => {
+  return input.type === 'text' ? !!value?.text?.trim() : !!(value?.src || value?.mediaId);
+};
+
+// Copy of the workflow with the form's values written into the exposed input nodes
+export const applyAppValues = (workflow: Workflow, values: Record<string, AppInputValue>): Workflow => ({
+  ...workflow,
+  nodes: workflow.nodes.map(node => {
+    const value = values[node.id];
+    if (!value || !node.settings.exposeAsInput) return node;
+    if (INPUT_TYPES[node.typeKey] === 'text') {
+      return { ...node, settings: { ...node.settings, text: value.text || '' } };
+    }
+    // A new file replaces the designer's, so drop the old source type with it
+    const { sourceType, ...settings } = node.settings;
+    return { ...node, settings: { ...settings, src: value.src, fileName: value.fileName, mediaId: value.mediaId } };
+  }),
+});
+
+// Generation nodes whose outputs are not connected to anything
+export const getTerminalNodeIds = (workflow: Workflow): string[] => {
+  const feeding = new Set(workflow.connections.map(c => c.from.nodeId));
+  return workflow.nodes
+    .filter(node => !INPUT_TYPES[node.typeKey] && !feeding.has(node.id))
+    .sort(byCanvasPosition)
+    .map(node => node.id);
+};
+
+export const getTerminalOutputs = (workflow: Workflow, nodes: NodeData[]): MediaItem[] => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  return getTerminalNodeIds(workflow).flatMap(id => byId.get(id)?.outputData || []);
+};
+
+// Fixed inputs whose media only lives in this page (e.g. a chosen video) are embedded so the app keeps them
+export const publishWorkflowApp = async (workflow: Workflow, name: string): Promise<void> => {
+  const file = await serializeWorkflow(workflow, {
+    name,
+    embedMedia: node => !node.settings.exposeAsInput && !isPortableUrl(node.settings.src),
+  });
+  try {
+    localStorage.setItem(PUBLISHED_APP_STORAGE_KEY, JSON.stringify(file));
+  } catch {
+    throw new Error('The app is too large to save in this browser. Use smaller fixed images or videos, or expose those inputs so users choose them.');
+  }
+};
+
+// The published app, or null if there is none or it can no longer be read
+export const loadPublishedApp = (): LoadedWorkflow | null => {
+  const stored = localStorage.getItem(PUBLISHED_APP_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return parseWorkflowFile(stored);
+  } catch (error) {
+    console.warn('Could not load the published workflow app:', error);
+    return null;
+  }
+};
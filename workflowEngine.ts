@@ -0,0 +1,539 @@
+/**
+ * Workflow Engine
+ *
+ * Runs a Workflow (see spec.md section 3.2) against the Leonardo.ai API with
+ * no UI involved, so the canvas and Node scripts share one executor:
+ * - validates the graph and orders it topologically, rejecting cycles
+ * - starts each node once all of its parents have completed, running
+ *   independent branches in parallel up to a concurrency limit
+ * - gathers a node's inputs from its parents' outputs
+ * - reports per-node status and progress through events
+ *
+ * Generated media is stored on each node's outputData as MediaItem[] tagged
+ * with the run's runId. When a node fails, the nodes downstream of it are
+ * skipped while unrelated branches carry on.
+ *
+ * The engine only uses fetch, Blob and AbortSignal, which Node 18+ provides.
+ */
+
+import { NodeData, Connection, MediaItem, Workflow } from './types';
+import { NODE_TYPES } from './constants';
+import { LeonardoClient, CreateGenerationRequest, CreateTextToVideoRequest, CreateMotionSvdRequest, Controlnet, ContextImage, Generation, TextToVideoModel } from './leonardoClient';
+import { waitForGenerationCompletion, classifyGenerationError, PollOptions } from './generationPoller';
+import { WebhookListener } from './webhookListener';
+import { ASPECT_RATIO_DIMENSIONS, getModelId, getModelGuidanceSupport, modelSupports, getTextToVideoConfig, getVideoDimensions, GuidanceName } from './modelConfig';
+import { getConnectorDefinition, getOutputNames } from './workflowGraph';
+
+export type WorkflowNodeStatus = NonNullable<NodeData['status']>;
+export type WorkflowRunStatus = 'completed' | 'failed' | 'cancelled';
+
+export type WorkflowEvent =
+  | { type: 'run-started'; runId: number; order: string[] }
+  | { type: 'node-status'; runId: number; nodeId: string; status: WorkflowNodeStatus; error?: string }
+  | { type: 'node-progress'; runId: number; nodeId: string; message: string }
+  | { type: 'node-output'; runId: number; nodeId: string; outputs: MediaItem[] }
+  | { type: 'run-progress'; runId: number; finished: number; total: number }
+  | { type: 'run-finished'; runId: number; status: WorkflowRunStatus };
+
+export interface WorkflowRunOptions {
+  concurrency?: number; // Nodes running at once
+  signal?: AbortSignal;
+  onEvent?: (event: WorkflowEvent) => void;
+  runId?: number; // Defaults to the start time, like generations in the app
+  webhook?: WebhookListener | null;
+  poll?: Omit<PollOptions, 'signal' | 'onStatus'>;
+  fetch?: typeof fetch; // Used to re-upload images that have no Leonardo ID
+}
+
+export interface WorkflowRunResult {
+  runId: number;
+  status: WorkflowRunStatus;
+  nodes: NodeData[]; // Copies with the final status and outputData
+  errors: Record<string, string>; // Failed and skipped nodes by ID
+}
+
+// What a node hands to its children
+interface NodeResult {
+  text?: string;
+  media: MediaItem[];
+}
+
+interface NodeInputs {
+  text: Record<string, string>;
+  media: Record<string, MediaItem[]>;
+}
+
+interface ExecutionContext {
+  client: LeonardoClient;
+  runId: number;
+  signal: AbortSignal;
+  options: WorkflowRunOptions;
+  progress: (message: string) => void;
+}
+
+export const DEFAULT_WORKFLOW_CONCURRENCY = 2;
+
+// Inputs a node cannot run without
+const REQUIRED_INPUTS: Record<string, string[]> = {
+  'image-generation': ['Prompt'],
+  'text-to-video': ['Prompt'],
+  'image-to-video': ['Image'],
+  'image-edit': ['Prompt', 'Image to Edit'],
+};
+
+const describeNode = (node: NodeData): string => `${NODE_TYPES[node.typeKey]?.name || node.typeKey} (${node.id})`;
+
+// Kahn's algorithm; throws if the connections form a cycle
+export const topologicalSort = (workflow: Workflow): string[] => {
+  const ids = workflow.nodes.map(node => node.id);
+  const indegree = new Map(ids.map(id => [id, 0]));
+  const children = new Map<string, string[]>(ids.map(id => [id, []]));
+  for (const { from, to } of workflow.connections) {
+    if (!indegree.has(from.nodeId) || !indegree.has(to.nodeId)) continue;
+    children.get(from.nodeId)!.push(to.nodeId);
+    indegree.set(to.nodeId, indegree.get(to.nodeId)! + 1);
+  }
+
+  const order: string[] = [];
+  const ready = ids.filter(id => indegree.get(id) === 0);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const child of children.get(id)!) {
+      indegree.set(child, indegree.get(child)! - 1);
+      if (indegree.get(child) === 0) ready.push(child);
+    }
+  }
+
+  if (order.length < ids.length) {
+    const cyclic = workflow.nodes.filter(node => !order.includes(node.id)).map(describeNode);
+    throw new Error(`Workflow has a cycle through: ${cyclic.join(', ')}`);
+  }
+  return order;
+};
+
+// Everything that would stop the workflow from running, as readable messages
+export const validateWorkflow = (workflow: Workflow): string[] => {
+  const problems: string[] = [];
+  const byId = new Map(workflow.nodes.map(node => [node.id, node]));
+
+  for (const node of workflow.nodes) {
+    if (!NODE_TYPES[node.typeKey]) {
+      problems.push(`Unknown node type "${node.typeKey}" (${node.id}).`);
+    }
+  }
+
+  const connectedInputs = new Set<string>();
+  for (const { from, to, dataType } of workflow.connections) {
+    const fromNode = byId.get(from.nodeId);
+    const toNode = byId.get(to.nodeId);
+    if (!fromNode || !toNode) {
+      problems.push(`A connection refers to a missing node (${!fromNode ? from.nodeId : to.nodeId}).`);
+      continue;
+    }
+    const output = getConnectorDefinition(fromNode, from.connectorName, 'output');
+    const input = getConnectorDefinition(toNode, to.connectorName, 'input');
+    if (!output || !input) {
+      problems.push(`${describeNode(!output ? fromNode : toNode)} has no connector "${!output ? from.connectorName : to.connectorName}".`);
+    } else if (output.type !== input.type || output.type !== dataType) {
+      problems.push(`${describeNode(fromNode)} "${from.connectorName}" (${output.type}) cannot feed ${describeNode(toNode)} "${to.connectorName}" (${input.type}).`);
+    }
+    const inputKey = `${to.nodeId}:${to.connectorName}`;
+    if (connectedInputs.has(inputKey)) {
+      problems.push(`${describeNode(toNode)} "${to.connectorName}" has more than one connection.`);
+    }
+    connectedInputs.add(inputKey);
+  }
+
+  for (const node of workflow.nodes) {
+    for (const name of REQUIRED_INPUTS[node.typeKey] || []) {
+      if (!connectedInputs.has(`${node.id}:${name}`)) {
+        problems.push(`${describeNode(node)} needs a "${name}" input.`);
+      }
+    }
+    const feedsOthers = workflow.connections.some(c => c.from.nodeId === node.id);
+    if (feedsOthers && node.typeKey === 'input-text' && !String(node.settings.text || '').trim()) {
+      problems.push(`${describeNode(node)} has no text.`);
+    }
+    if (feedsOthers && (node.typeKey === 'input-image' || node.typeKey === 'input-video') && !node.settings.src && !node.settings.mediaId) {
+      problems.push(`${describeNode(node)} has no file.`);
+    }
+    // Auto picks its model from an enhanced prompt, which a workflow does not produce
+    if ((node.typeKey === 'image-generation' || node.typeKey === 'image-edit') && (node.settings.model === 'Auto' || !getModelId(node.settings.model))) {
+      problems.push(`${describeNode(node)} needs a specific model; "${node.settings.model}" cannot be used in a workflow.`);
+    }
+  }
+
+  try {
+    topologicalSort(workflow);
+  } catch (error) {
+    problems.push((error as Error).message);
+  }
+  return problems;
+};
+
+// Media from a finished generation, tagged with the run
+const toMediaItems = (generation: Generation, runId: number, parent?: MediaItem): MediaItem[] => {
+  const timestamp = Date.now();
+  return generation.generated_images.map(image => ({
+    mediaId: image.id,
+    url: image.motionMP4URL || image.url,
+    type: image.motionMP4URL ? 'video' as const : 'image' as const,
+    sourceType: 'generated' as const,
+    timestamp,
+    runId,
+    parentMediaId: parent?.mediaId,
+    derivedBy: parent && image.motionMP4URL ? 'motion' as const : undefined,
+  }));
+};
+
+const waitForMedia = async (context: ExecutionContext, generationId: string, parent?: MediaItem): Promise<MediaItem[]> => {
+  const { client, signal, options, progress } = context;
+  progress('Waiting for Leonardo.ai');
+  const generation = await waitForGenerationCompletion(client, generationId, {
+    ...options.poll,
+    signal,
+    webhook: options.webhook,
+    onStatus: status => progress(status === 'PROCESSING' ? 'Generating' : `Status: ${status}`),
+  });
+  return toMediaItems(generation, context.runId, parent);
+};
+
+const fileExtension = (name: string, contentType: string | null): string => {
+  const fromType = contentType?.match(/^image\/(png|jpe?g|webp)/)?.[1];
+  if (fromType) return fromType === 'jpeg' ? 'jpg' : fromType;
+  return name.split('?')[0].match(/\.(png|jpe?g|webp)$/i)?.[1].toLowerCase() || 'jpg';
+};
+
+// Upload an image Leonardo does not know yet and return it as an init image
+const uploadFromUrl = async (context: ExecutionContext, url: string, name: string): Promise<MediaItem> => {
+  context.progress('Uploading image');
+  const fetchImpl = context.options.fetch || globalThis.fetch.bind(globalThis);
+  const response = await fetchImpl(url, { signal: context.signal });
+  if (!response.ok) {
+    throw new Error(`Could not read image ${name}: HTTP ${response.status}`);
+  }
+  const mediaId = await context.client.uploadInitImage(await response.blob(), fileExtension(name, response.headers.get('content-type')));
+  return { mediaId, url, type: 'image', sourceType: 'init', timestamp: Date.now(), runId: context.runId };
+};
+
+// Guidance and context images must be generated or uploaded images; variations are uploaded again
+const toGuidanceImage = async (context: ExecutionContext, media: MediaItem): Promise<{ id: string; type: 'UPLOADED' | 'GENERATED' }> => {
+  if (media.sourceType === 'generated') return { id: media.mediaId, type: 'GENERATED' };
+  if (media.sourceType === 'init') return { id: media.mediaId, type: 'UPLOADED' };
+  const uploaded = await uploadFromUrl(context, media.url, media.mediaId);
+  return { id: uploaded.mediaId, type: 'UPLOADED' };
+};
+
+const parseSeed = (seed: unknown): number | null => {
+  const parsed = parseInt(String(seed ?? ''), 10);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const firstMedia = (inputs: NodeInputs, name: string): MediaItem => {
+  const media = inputs.media[name]?.[0];
+  if (!media) {
+    throw new Error(`No image arrived at "${name}".`);
+  }
+  return media;
+};
+
+// Node executors
+
+const runInputNode = async (node: NodeData, context: ExecutionContext): Promise<NodeResult> => {
+  const { settings } = node;
+  if (node.typeKey === 'input-text') {
+    return { text: String(settings.text || ''), media: [] };
+  }
+  const type = node.typeKey === 'input-video' ? 'video' as const : 'image' as const;
+  if (!settings.mediaId && type === 'image') {
+    return { media: [await uploadFromUrl(context, settings.src, settings.fileName || node.id)] };
+  }
+  return {
+    media: [{
+      mediaId: settings.mediaId || settings.fileName || node.id,
+      url: settings.src,
+      type,
+      sourceType: settings.sourceType || 'init',
+      timestamp: Date.now(),
+      runId: context.runId,
+    }],
+  };
+};
+
+const runImageGeneration = async (node: NodeData, inputs: NodeInputs, context: ExecutionContext): Promise<NodeResult> => {
+  const { settings } = node;
+  const model: string = settings.model;
+  const dimensions = ASPECT_RATIO_DIMENSIONS[settings.aspectRatio] || { width: 1024, height: 1024 };
+  const request: CreateGenerationRequest = {
+    prompt: inputs.text['Prompt'],
+    modelId: getModelId(model),
+    num_images: settings.numImages || 1,
+    width: dimensions.width,
+    height: dimensions.height,
+    seed: parseSeed(settings.seed),
+  };
+  if (inputs.text['Negative Prompt']) {
+    request.negative_prompt = inputs.text['Negative Prompt'];
+  }
+  if (settings.promptEnhance && modelSupports(model, 'promptEnhance')) {
+    request.promptEnhance = true;
+  }
+  // Same contrast and Alchemy rules as the single-prompt generator
+  if (modelSupports(model, 'alchemy')) {
+    request.alchemy = true;
+    if (model.includes('Phoenix')) {
+      request.contrast = Math.max(settings.contrast || 1.0, 2.5);
+    }
+  } else if (modelSupports(model, 'contrast')) {
+    request.contrast = settings.contrast || 1.0;
+  }
+  if (settings.style && settings.style !== 'None') {
+    request.presetStyle = settings.style.toUpperCase().replace(/ /g, '_');
+  }
+
+  // Each connected reference slot becomes a controlnet with its own strength,
+  // or a context image for models that take references that way
+  const guidanceSupport = getModelGuidanceSupport(model);
+  const controlnets: Controlnet[] = [];
+  const contextImages: ContextImage[] = [];
+  for (const [connectorName, media] of Object.entries(inputs.media)) {
+    const guidanceType = (['Style Reference', 'Character Reference'] as GuidanceName[]).find(name => connectorName.startsWith(name));
+    if (!guidanceType || !media[0]) continue;
+    if (guidanceSupport['Context Images']) {
+      const image = await toGuidanceImage(context, media[0]);
+      contextImages.push({ type: image.type, id: image.id });
+      continue;
+    }
+    const preprocessorId = guidanceSupport[guidanceType]?.preprocessorId;
+    if (!preprocessorId) continue;
+    const image = await toGuidanceImage(context, media[0]);
+    const slotSettings = (settings.guidance || []).find((g: { connectorName: string }) => g.connectorName === connectorName);
+    const controlnet: Controlnet = {
+      initImageId: image.id,
+      initImageType: image.type,
+      preprocessorId,
+      strengthType: slotSettings?.strengthType || 'Mid',
+    };
+    if (modelSupports(model, 'guidanceWeight')) {
+      controlnet.weight = 1.0;
+    }
+    controlnets.push(controlnet);
+  }
+  if (contextImages.length > 0) {
+    request.contextImages = contextImages.slice(0, guidanceSupport['Context Images']?.maxInputs || contextImages.length);
+  }
+  if (controlnets.length > 0) {
+    request.controlnets = controlnets;
+  }
+
+  context.progress('Submitting generation');
+  const { generationId } = (await context.client.createGeneration(request, { signal: context.signal })).sdGenerationJob;
+  return { media: await waitForMedia(context, generationId) };
+};
+
+// Kontext-style edit models take the source as a context image; the strength setting has no API equivalent there
+const runImageEdit = async (node: NodeData, inputs: NodeInputs, context: ExecutionContext): Promise<NodeResult> => {
+  const { settings } = node;
+  const source = await toGuidanceImage(context, firstMedia(inputs, 'Image to Edit'));
+  const contextImage: ContextImage = { type: source.type, id: source.id };
+  const dimensions = ASPECT_RATIO_DIMENSIONS[settings.aspectRatio] || ASPECT_RATIO_DIMENSIONS['1:1'];
+  const request: CreateGenerationRequest = {
+    prompt: inputs.text['Prompt'],
+    modelId: getModelId(settings.model),
+    num_images: 1,
+    width: dimensions.width,
+    height: dimensions.height,
+    seed: parseSeed(settings.seed),
+    contextImages: [contextImage],
+  };
+  if (modelSupports(settings.model, 'contrast')) {
+    request.contrast = settings.contrast || 1.0;
+  }
+
+  context.progress('Submitting edit');
+  const { generationId } = (await context.client.createGeneration(request, { signal: context.signal })).sdGenerationJob;
+  return { media: await waitForMedia(context, generationId) };
+};
+
+const runTextToVideo = async (node: NodeData, inputs: NodeInputs, context: ExecutionContext): Promise<NodeResult> => {
+  const { settings } = node;
+  const videoConfig = getTextToVideoConfig(settings.model);
+  if (!videoConfig) {
+    throw new Error(`"${settings.model}" is not a text-to-video model.`);
+  }
+  const resolution = videoConfig.supports.resolutions.includes(settings.resolution) ? settings.resolution : videoConfig.defaults.resolution;
+  const request: CreateTextToVideoRequest = {
+    prompt: inputs.text['Prompt'],
+    model: settings.model as TextToVideoModel,
+    resolution,
+    ...getVideoDimensions(resolution, settings.aspectRatio || '16:9'),
+  };
+  if (inputs.text['Negative Prompt']) {
+    request.negativePrompt = inputs.text['Negative Prompt'];
+  }
+  if (videoConfig.supports.frameInterpolation) {
+    request.frameInterpolation = !!settings.frameInterpolation;
+  }
+  if (videoConfig.supports.promptEnhance) {
+    request.promptEnhance = !!settings.promptEnhance;
+  }
+
+  context.progress('Submitting video');
+  const { generationId } = (await context.client.createTextToVideoGeneration(request, { signal: context.signal })).motionVideoGenerationJob;
+  return { media: await waitForMedia(context, generationId) };
+};
+
+const runImageToVideo = async (node: NodeData, inputs: NodeInputs, context: ExecutionContext): Promise<NodeResult> => {
+  // Motion accepts generated, init and variation images by their Leonardo ID
+  const source = firstMedia(inputs, 'Image');
+  const request: CreateMotionSvdRequest = {
+    imageId: source.mediaId,
+    motionStrength: node.settings.motionStrength || 5,
+    isInitImage: source.sourceType === 'init',
+    isVariation: source.sourceType === 'variation',
+  };
+
+  context.progress('Submitting animation');
+  const { generationId } = (await context.client.createMotionSvdGeneration(request, { signal: context.signal })).motionSvdGenerationJob;
+  return { media: await waitForMedia(context, generationId, source) };
+};
+
+const executeNode = (node: NodeData, inputs: NodeInputs, context: ExecutionContext): Promise<NodeResult> => {
+  switch (node.typeKey) {
+    case 'input-text':
+    case 'input-image':
+    case 'input-video':
+      return runInputNode(node, context);
+    case 'image-generation':
+      return runImageGeneration(node, inputs, context);
+    case 'image-edit':
+      return runImageEdit(node, inputs, context);
+    case 'text-to-video':
+      return runTextToVideo(node, inputs, context);
+    case 'image-to-video':
+      return runImageToVideo(node, inputs, context);
+    default:
+      throw new Error(`Unknown node type: ${node.typeKey}`);
+  }
+};
+
+// The value one output connector carries; numbered outputs carry one item each
+const outputValue = (node: NodeData, result: NodeResult, connectorName: string): NodeResult => {
+  const names = getOutputNames(node);
+  if (names.length <= 1) return result;
+  const item = result.media[names.indexOf(connectorName)];
+  return { text: result.text, media: item ? [item] : [] };
+};
+
+const gatherInputs = (node: NodeData, connections: Connection[], nodesById: Map<string, NodeData>, results: Map<string, NodeResult>): NodeInputs => {
+  const inputs: NodeInputs = { text: {}, media: {} };
+  for (const { from, to, dataType } of connections) {
+    if (to.nodeId !== node.id) continue;
+    const value = outputValue(nodesById.get(from.nodeId)!, results.get(from.nodeId)!, from.connectorName);
+    if (dataType === 'text') {
+      inputs.text[to.connectorName] = value.text || '';
+    } else {
+      inputs.media[to.connectorName] = value.media;
+    }
+  }
+  return inputs;
+};
+
+const isCancellation = (error: unknown): boolean => classifyGenerationError(error).kind === 'cancelled';
+
+// Run every node of the workflow; rejects only if the workflow is invalid
+export const runWorkflow = async (
+  workflow: Workflow,
+  client: LeonardoClient,
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult> => {
+  const problems = validateWorkflow(workflow);
+  if (problems.length > 0) {
+    throw new Error(`Workflow cannot run:\n${problems.join('\n')}`);
+  }
+
+  const runId = options.runId ?? Date.now();
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_WORKFLOW_CONCURRENCY);
+  const signal = options.signal || new AbortController().signal;
+  const emit = (event: WorkflowEvent) => options.onEvent?.(event);
+
+  const order = topologicalSort(workflow);
+  // Earlier results are cleared; the run fills them in again
+  const nodes = workflow.nodes.map((node): NodeData => ({ ...node, status: 'idle', outputData: undefined }));
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const results = new Map<string, NodeResult>();
+  const errors: Record<string, string> = {};
+  const pendingParents = new Map(order.map(id => [id, new Set(workflow.connections.filter(c => c.to.nodeId === id).map(c => c.from.nodeId))]));
+  const ready = order.filter(id => pendingParents.get(id)!.size === 0);
+  const running = new Map<string, Promise<void>>();
+  let finished = 0;
+
+  const setStatus = (node: NodeData, status: WorkflowNodeStatus, error?: string) => {
+    node.status = status;
+    emit({ type: 'node-status', runId, nodeId: node.id, status, error });
+  };
+
+  const start = (node: NodeData) => {
+    setStatus(node, 'running');
+    const context: ExecutionContext = {
+      client,
+      runId,
+      signal,
+      options,
+      progress: message => emit({ type: 'node-progress', runId, nodeId: node.id, message }),
+    };
+    const task = executeNode(node, gatherInputs(node, workflow.connections, nodesById, results), context)
+      .then(result => {
+        results.set(node.id, result);
+        if (!NODE_TYPES[node.typeKey].category?.startsWith('Input')) {
+          node.outputData = result.media;
+          emit({ type: 'node-output', runId, nodeId: node.id, outputs: result.media });
+        }
+        setStatus(node, 'completed');
+        // Children whose last parent just finished are ready, in topological order
+        for (const id of order) {
+          const parents = pendingParents.get(id)!;
+          if (parents.delete(node.id) && parents.size === 0) ready.push(id);
+        }
+      })
+      .catch(error => {
+        if (signal.aborted || isCancellation(error)) {
+          setStatus(node, 'idle');
+          errors[node.id] = 'Cancelled.';
+        } else {
+          errors[node.id] = classifyGenerationError(error).message;
+          setStatus(node, 'failed', errors[node.id]);
+        }
+      })
+      .finally(() => {
+        running.delete(node.id);
+        finished++;
+        emit({ type: 'run-progress', runId, finished, total: order.length });
+      });
+    running.set(node.id, task);
+  };
+
+  emit({ type: 'run-started', runId, order });
+  while (!signal.aborted && (ready.length > 0 || running.size > 0)) {
+    while (ready.length > 0 && running.size < concurrency) {
+      start(nodesById.get(ready.shift()!)!);
+    }
+    await Promise.race(running.values());
+  }
+  // Let aborted nodes settle before reporting
+  await Promise.allSettled(running.values());
+
+  for (const id of order) {
+    const node = nodesById.get(id)!;
+    // Never started: report it so the UI can show why
+    if (node.status === 'idle' && !errors[id]) {
+      errors[id] = signal.aborted ? 'Cancelled.' : 'Skipped because an upstream node failed.';
+      setStatus(node, 'idle', errors[id]);
+    }
+  }
+
+  const status: WorkflowRunStatus = signal.aborted ? 'cancelled' : nodes.some(node => node.status === 'failed') ? 'failed' : 'completed';
+  emit({ type: 'run-finished', runId, status });
+  return { runId, status, nodes, errors };
+};
@@ -0,0 +1,288 @@
+/**
+ * Workflow File Format
+ *
+ * Saves a Workflow as versioned JSON so pipelines can be shared and loaded
+ * back into the builder. A file carries:
+ * - the schema version, so older files can be migrated on import
+ * - each node's type, position, settings and exposed multi-input slots
+ * - the connections and, optionally, the canvas transform
+ * - optionally the input nodes' media, embedded as data URLs
+ *
+ * Run state (status, outputs) is not saved. Unversioned JSON is read as
+ * version 0: a bare { nodes, connections } object like the builder's draft.
+ */
+
+import { NodeData, Connection, CanvasTransform, Workflow } from './types';
+import { NODE_TYPES } from './constants';
+import { getConnectorDefinition } from './workflowGraph';
+
+export const WORKFLOW_FILE_FORMAT = 'leonardo-workflow';
+export const WORKFLOW_FILE_VERSION = 1;
+
+export interface WorkflowFileNode {
+  id: string;
+  typeKey: string;
+  position: { x: number; y: number };
+  settings: Record<string, any>;
+  exposedConnectors?: Record<string, number>;
+}
+
+export interface EmbeddedMedia {
+  dataUrl: string;
+  fileName?: string;
+}
+
+export interface WorkflowFile {
+  format: typeof WORKFLOW_FILE_FORMAT;
+  version: number;
+  name?: string;
+  exportedAt: string;
+  nodes: WorkflowFileNode[];
+  connections: Connection[];
+  transform?: CanvasTransform;
+  media?: Record<string, EmbeddedMedia>; // Input node media by node ID
+}
+
+export interface SerializeOptions {
+  name?: string;
+  transform?: CanvasTransform;
+  embedMedia?: boolean | ((node: NodeData) => boolean); // Fetch input images and videos into the file, or only the nodes picked
+  fetch?: typeof fetch;
+}
+
+export interface LoadedWorkflow {
+  workflow: Workflow;
+  transform?: CanvasTransform;
+  name?: string;
+}
+
+// Upgrades a file from the version it is keyed by to the next one
+type Migration = (file: Record<string, unknown>) => Record<string, unknown> & { version: number };
+
+const MIGRATIONS: Record<number, Migration> = {
+  // 0 -> 1: bare { nodes, connections, transform } gains the format header
+  0: file => ({
+    format: WORKFLOW_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date(0).toISOString(),
+    nodes: file.nodes,
+    connections: file.connections,
+    transform: file.transform,
+  }),
+};
+
+const MEDIA_INPUT_TYPES = ['input-image', 'input-video'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Object URLs only live as long as the page that made them
+export const isPortableUrl = (url: unknown): boolean => typeof url === 'string' && !url.startsWith('blob:');
+
+const blobToDataUrl = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+};
+
+export const serializeWorkflow = async (workflow: Workflow, options: SerializeOptions = {}): Promise<WorkflowFile> => {
+  const fetchImpl = options.fetch || globalThis.fetch.bind(globalThis);
+  const media: Record<string, EmbeddedMedia> = {};
+
+  const nodes: WorkflowFileNode[] = [];
+  for (const node of workflow.nodes) {
+    const settings = { ...node.settings };
+    if (MEDIA_INPUT_TYPES.includes(node.typeKey) && settings.src) {
+      const embed = typeof options.embedMedia === 'function' ? options.embedMedia(node) : options.embedMedia;
+      if (embed) {
+        const response = await fetchImpl(settings.src);
+        if (!response.ok) {
+          throw new Error(`Could not read ${settings.fileName || node.id}: HTTP ${response.status}`);
+        }
+        media[node.id] = { dataUrl: await blobToDataUrl(await response.blob()), fileName: settings.fileName };
+        delete settings.src;
+      } else if (!isPortableUrl(settings.src)) {
+        delete settings.src;
+      }
+    }
+    nodes.push({
+      id: node.id,
+      typeKey: node.typeKey,
+      position: { x: node.position.x, y: node.position.y },
+      settings,
+      ...(node.exposedConnectors ? { exposedConnectors: { ...node.exposedConnectors } } : {}),
+    });
+  }
+
+  const file: WorkflowFile = {
+    format: WORKFLOW_FILE_FORMAT,
+    version: WORKFLOW_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodes,
+    connections: workflow.connections.map(c => ({ from: { ...c.from }, to: { ...c.to }, dataType: c.dataType })),
+  };
+  if (options.name) file.name = options.name;
+  if (options.transform) file.transform = { ...options.transform };
+  if (Object.keys(media).length > 0) file.media = media;
+  return file;
+};
+
+// Bring a parsed file of any known version up to the current one
+export const migrateWorkflowFile = (raw: unknown): Record<string, unknown> => {
+  if (!isRecord(raw)) {
+    throw new Error('Invalid workflow file: expected a JSON object');
+  }
+  if (raw.format !== undefined && raw.format !== WORKFLOW_FILE_FORMAT) {
+    throw new Error(`Invalid workflow file: unknown format "${raw.format}"`);
+  }
+  const rawVersion = raw.version ?? 0;
+  if (typeof rawVersion !== 'number' || !Number.isInteger(rawVersion) || rawVersion < 0) {
+    throw new Error(`Invalid workflow file: bad version "${rawVersion}"`);
+  }
+  let file = raw;
+  let version = rawVersion;
+  if (version > WORKFLOW_FILE_VERSION) {
+    throw new Error(`This workflow was saved by a newer version of the app (format version ${version}); update to open it.`);
+  }
+  while (version < WORKFLOW_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from workflow format version ${version}`);
+    }
+    const migrated = migrate(file);
+    file = migrated;
+    version = migrated.version;
+  }
+  return file;
+};
+
+// Check a current-version file; returns one message per problem found
+export const validateWorkflowFile = (file: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+  const { nodes, connections } = file;
+  if (!Array.isArray(nodes)) errors.push('nodes must be an array');
+  if (!Array.isArray(connections)) errors.push('connections must be an array');
+  if (!Array.isArray(nodes) || !Array.isArray(connections)) return errors;
+
+  const nodesById = new Map<string, NodeData>();
+  (nodes as unknown[]).forEach((node, index) => {
+    if (!isRecord(node) || typeof node.id !== 'string') {
+      errors.push(`Node ${index + 1}: must be an object with a string id`);
+      return;
+    }
+    if (nodesById.has(node.id)) {
+      errors.push(`Node ${node.id}: duplicate id`);
+    }
+    if (typeof node.typeKey !== 'string') {
+      errors.push(`Node ${node.id}: typeKey must be a string`);
+    } else if (!NODE_TYPES[node.typeKey]) {
+      errors.push(`Node ${node.id}: unknown typeKey "${node.typeKey}"`);
+    }
+    if (!isRecord(node.position) || !isFiniteNumber(node.position.x) || !isFiniteNumber(node.position.y)) {
+      errors.push(`Node ${node.id}: position must have numeric x and y`);
+    }
+    if (node.settings !== undefined && !isRecord(node.settings)) {
+      errors.push(`Node ${node.id}: settings must be an object`);
+    }
+    if (node.exposedConnectors !== undefined
+      && (!isRecord(node.exposedConnectors) || !Object.values(node.exposedConnectors).every(count => typeof count === 'number' && Number.isInteger(count) && count >= 1))) {
+      errors.push(`Node ${node.id}: exposedConnectors must map input names to slot counts`);
+    }
+    nodesById.set(node.id, { ...node, settings: isRecord(node.settings) ? node.settings : {} } as NodeData);
+  });
+
+  (connections as unknown[]).forEach((connection, index) => {
+    const label = `Connection ${index + 1}`;
+    if (!isRecord(connection) || !isRecord(connection.from) || !isRecord(connection.to)) {
+      errors.push(`${label}: must have from and to`);
+      return;
+    }
+    const { from, to, dataType } = connection;
+    const fromNode = typeof from.nodeId === 'string' ? nodesById.get(from.nodeId) : undefined;
+    const toNode = typeof to.nodeId === 'string' ? nodesById.get(to.nodeId) : undefined;
+    if (!fromNode || !toNode) {
+      errors.push(`${label}: refers to missing node "${!fromNode ? from.nodeId : to.nodeId}"`);
+      return;
+    }
+    if (typeof from.connectorName !== 'string' || typeof to.connectorName !== 'string') {
+      errors.push(`${label}: connector names must be strings`);
+      return;
+    }
+    // Bad node types are reported above
+    if (typeof fromNode.typeKey !== 'string' || !NODE_TYPES[fromNode.typeKey]
+      || typeof toNode.typeKey !== 'string' || !NODE_TYPES[toNode.typeKey]) return;
+    const output = getConnectorDefinition(fromNode, from.connectorName, 'output');
+    const input = getConnectorDefinition(toNode, to.connectorName, 'input');
+    if (!output) {
+      errors.push(`${label}: ${fromNode.typeKey} has no output "${from.connectorName}"`);
+    } else if (!input) {
+      errors.push(`${label}: ${toNode.typeKey} has no input "${to.connectorName}"`);
+    } else if (output.type !== input.type || output.type !== dataType) {
+      errors.push(`${label}: ${output.type} output "${from.connectorName}" cannot connect to ${input.type} input "${to.connectorName}"`);
+    }
+  });
+
+  if (file.transform !== undefined
+    && (!isRecord(file.transform) || ![file.transform.x, file.transform.y, file.transform.scale].every(isFiniteNumber))) {
+    errors.push('transform must have numeric x, y and scale');
+  }
+  if (file.media !== undefined && !isRecord(file.media)) {
+    errors.push('media must be an object keyed by node ID');
+  }
+  return errors;
+};
+
+// Parse, migrate and validate a workflow file, throwing if it is invalid
+export const parseWorkflowFile = (json: string): LoadedWorkflow => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid workflow JSON: ${(error as Error).message}`);
+  }
+  const file = migrateWorkflowFile(parsed);
+  const errors = validateWorkflowFile(file);
+  if (errors.length > 0) {
+    throw new Error(`Invalid workflow file:\n${errors.join('\n')}`);
+  }
+
+  // Validated above, so the file has the current shape
+  const valid = file as unknown as WorkflowFile;
+  const media = valid.media || {};
+  const nodes = valid.nodes.map((node): NodeData => {
+    const settings = { ...NODE_TYPES[node.typeKey].defaultSettings, ...node.settings };
+    const embedded = media[node.id];
+    if (embedded && typeof embedded.dataUrl === 'string') {
+      settings.src = embedded.dataUrl;
+      settings.fileName = embedded.fileName || settings.fileName;
+      // Upload IDs belong to the exporter's account, so the media is uploaded again when run
+      delete settings.mediaId;
+      delete settings.sourceType;
+    }
+    return {
+      id: node.id,
+      typeKey: node.typeKey,
+      position: { x: node.position.x, y: node.position.y },
+      settings,
+      ...(node.exposedConnectors ? { exposedConnectors: { ...node.exposedConnectors } } : {}),
+      status: 'idle',
+    };
+  });
+
+  return {
+    workflow: { nodes, connections: valid.connections },
+    transform: valid.transform,
+    name: typeof valid.name === 'string' ? valid.name : undefined,
+  };
+};
+
+export const workflowFileName = (name?: string): string => {
+  const slug = (name || 'workflow').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow';
+  return `${slug}.workflow.json`;
+};
@@ -0,0 +1,149 @@
+/**
+ * Workflow Graph
+ *
+ * Pure helpers for editing a Workflow on the canvas. They resolve connector
+ * names (including numbered multi-input slots and dynamic outputs) to their
+ * definitions and apply the connection rules from spec.md:
+ * - connections run from an output to an input of the same data type
+ * - a node cannot connect to itself
+ * - an input accepts one connection; a new one replaces the old
+ * - connecting the last exposed slot of a multi-input exposes the next one
+ */
+
+import { NodeData, Connection, ConnectionPoint, ConnectionStartPoint, ConnectorDefinition, Position, Workflow } from './types';
+import { NODE_TYPES, GRID_SIZE, NODE_WIDTH, VIRTUAL_CANVAS_SIZE } from './constants';
+
+export type ConnectorSide = 'input' | 'output';
+
+let nodeCounter = 0;
+
+export const createNode = (typeKey: string, position: Position): NodeData => {
+  const nodeType = NODE_TYPES[typeKey];
+  if (!nodeType) {
+    throw new Error(`Unknown node type: ${typeKey}`);
+  }
+  return {
+    id: `node-${Date.now()}-${nodeCounter++}`,
+    typeKey,
+    position: snapPosition(position),
+    settings: { ...nodeType.defaultSettings },
+    status: 'idle',
+  };
+};
+
+// Snap to the canvas grid and keep the node inside the virtual canvas
+export const snapPosition = ({ x, y }: Position): Position => {
+  const clamp = (value: number) => Math.max(0, Math.min(VIRTUAL_CANVAS_SIZE - NODE_WIDTH, value));
+  return {
+    x: clamp(Math.round(x / GRID_SIZE) * GRID_SIZE),
+    y: clamp(Math.round(y / GRID_SIZE) * GRID_SIZE),
+  };
+};
+
+// Names of the input slots a node currently shows, e.g. "Style Reference 1"
+export const getInputNames = (node: NodeData): string[] => {
+  const nodeType = NODE_TYPES[node.typeKey];
+  if (!nodeType) return [];
+  return nodeType.inputs.flatMap(input => {
+    if (!input.count || input.count <= 1) return [input.name];
+    const exposed = node.exposedConnectors?.[input.name] || 1;
+    return Array.from({ length: exposed }, (_, i) => `${input.name} ${i + 1}`);
+  });
+};
+
+// Image Generation has one output per image; other nodes use their definitions
+export const getOutputNames = (node: NodeData): string[] => {
+  const nodeType = NODE_TYPES[node.typeKey];
+  const outputDef = nodeType?.outputs[0];
+  if (!outputDef) return [];
+  if (node.typeKey !== 'image-generation') return nodeType.outputs.map(output => output.name);
+  const count = node.settings.numImages || 1;
+  if (count <= 1) return [outputDef.name];
+  return Array.from({ length: count }, (_, i) => `${outputDef.name} ${i + 1}`);
+};
+
+// Definition behind a connector name; numbered names map to their base connector
+export const getConnectorDefinition = (node: NodeData, connectorName: string, side: ConnectorSide): ConnectorDefinition | undefined => {
+  const nodeType = NODE_TYPES[node.typeKey];
+  if (!nodeType) return undefined;
+  const names = side === 'input' ? getInputNames(node) : getOutputNames(node);
+  if (!names.includes(connectorName)) return undefined;
+  const definitions = side === 'input' ? nodeType.inputs : nodeType.outputs;
+  return definitions.find(def => def.name === connectorName)
+    || definitions.find(def => connectorName.startsWith(`${def.name} `) && /^\d+$/.test(connectorName.slice(def.name.length + 1)));
+};
+
+// Validated connection from an output to an input, or null if the rules forbid it
+export const createConnection = (nodes: NodeData[], from: ConnectionPoint, to: ConnectionPoint): Connection | null => {
+  if (from.nodeId === to.nodeId) return null;
+  const fromNode = nodes.find(n => n.id === from.nodeId);
+  const toNode = nodes.find(n => n.id === to.nodeId);
+  if (!fromNode || !toNode) return null;
+  const output = getConnectorDefinition(fromNode, from.connectorName, 'output');
+  const input = getConnectorDefinition(toNode, to.connectorName, 'input');
+  if (!output || !input || output.type !== input.type) return null;
+  return { from: { ...from }, to: { ...to }, dataType: output.type };
+};
+
+export const isSameConnection = (a: Connection, b: Connection): boolean => {
+  return a.from.nodeId === b.from.nodeId && a.from.connectorName === b.from.connectorName
+    && a.to.nodeId === b.to.nodeId && a.to.connectorName === b.to.connectorName;
+};
+
+// Show one more slot of a multi-input, up to its count
+export const exposeNextSlot = (node: NodeData, inputName: string): NodeData => {
+  const input = NODE_TYPES[node.typeKey]?.inputs.find(def => def.name === inputName);
+  if (!input?.count) return node;
+  const exposed = node.exposedConnectors?.[inputName] || 1;
+  if (exposed >= input.count) return node;
+  return { ...node, exposedConnectors: { ...node.exposedConnectors, [inputName]: exposed + 1 } };
+};
+
+// Add a connection, replacing any existing one into the same input
+export const addConnection = (workflow: Workflow, connection: Connection): Workflow => {
+  const connections = workflow.connections.filter(c =>
+    !(c.to.nodeId === connection.to.nodeId && c.to.connectorName === connection.to.connectorName));
+
+  const nodes = workflow.nodes.map(node => {
+    if (node.id !== connection.to.nodeId) return node;
+    const input = getConnectorDefinition(node, connection.to.connectorName, 'input');
+    if (!input?.count || input.count <= 1) return node;
+    const exposed = node.exposedConnectors?.[input.name] || 1;
+    return connection.to.connectorName === `${input.name} ${exposed}` ? exposeNextSlot(node, input.name) : node;
+  });
+
+  return { nodes, connections: [...connections, connection] };
+};
+
+// First connector on a node that could complete a connection dragged from start
+export const findCompatibleConnector = (node: NodeData, start: ConnectionStartPoint, connections: Connection[]): string | null => {
+  if (node.id === start.nodeId) return null;
+  const side: ConnectorSide = start.type === 'output' ? 'input' : 'output';
+  const names = side === 'input' ? getInputNames(node) : getOutputNames(node);
+  const compatible = names.filter(name => getConnectorDefinition(node, name, side)?.type === start.dataType);
+  if (side === 'output') return compatible[0] || null;
+  // Prefer an input that is still free
+  const isFree = (name: string) => !connections.some(c => c.to.nodeId === node.id && c.to.connectorName === name);
+  return compatible.find(isFree) || compatible[0] || null;
+};
+
+// Drop connections whose connectors no longer exist, e.g. after lowering numImages
+export const pruneConnections = (workflow: Workflow): Workflow => {
+  const byId = new Map(workflow.nodes.map(node => [node.id, node]));
+  const connections = workflow.connections.filter(c => {
+    const fromNode = byId.get(c.from.nodeId);
+    const toNode = byId.get(c.to.nodeId);
+    return !!fromNode && !!toNode
+      && !!getConnectorDefinition(fromNode, c.from.connectorName, 'output')
+      && !!getConnectorDefinition(toNode, c.to.connectorName, 'input');
+  });
+  return connections.length === workflow.connections.length ? workflow : { ...workflow, connections };
+};
+
+export const removeNodes = (workflow: Workflow, nodeIds: string[]): Workflow => {
+  const removed = new Set(nodeIds);
+  return {
+    nodes: workflow.nodes.filter(node => !removed.has(node.id)),
+    connections: workflow.connections.filter(c => !removed.has(c.from.nodeId) && !removed.has(c.to.nodeId)),
+  };
+};
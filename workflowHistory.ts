@@ -0,0 +1,186 @@
+/**
+ * Workflow Edit History
+ *
+ * Undo and redo for canvas edits. Each edit is recorded as a command: the
+ * nodes it added, removed or changed and the connections it added or
+ * removed, worked out by comparing the workflow before and after it. A
+ * command therefore covers every side effect of an edit, such as the old
+ * connection an "Input Singularity" replacement removes or the multi-input
+ * slot a new connection exposes.
+ *
+ * Commands only touch what the user edits (position, settings, exposed
+ * slots), so undoing during a run leaves node status and outputs alone.
+ * Consecutive commands with the same coalesce key, such as the steps of one
+ * drag, merge into a single undo step until the caller ends the gesture.
+ */
+
+import { NodeData, Connection, Workflow } from './types';
+import { isSameConnection } from './workflowGraph';
+
+// The part of a node that edits change and history restores
+type EditableNode = Pick<NodeData, 'id' | 'typeKey' | 'position' | 'settings' | 'exposedConnectors'>;
+
+interface NodeChange {
+  id: string;
+  before: EditableNode | null; // Null when the command added the node
+  after: EditableNode | null; // Null when the command removed the node
+  index: number; // Position in the node list, so undone deletes keep their stacking order
+}
+
+export interface WorkflowCommand {
+  label: string;
+  coalesceKey?: string;
+  nodes: NodeChange[];
+  connectionsAdded: Connection[];
+  connectionsRemoved: Connection[];
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+export const MAX_HISTORY = 100;
+
+const toEditable = ({ id, typeKey, position, settings, exposedConnectors }: NodeData): EditableNode => ({
+  id, typeKey, position, settings, exposedConnectors,
+});
+
+const isSameEditable = (a: EditableNode, b: EditableNode): boolean => {
+  return a.position.x === b.position.x && a.position.y === b.position.y
+    && a.settings === b.settings && a.exposedConnectors === b.exposedConnectors;
+};
+
+const withoutConnections = (connections: Connection[], removed: Connection[]): Connection[] => {
+  return connections.filter(c => !removed.some(r => isSameConnection(c, r)));
+};
+
+// The command that turns before into after, or null if nothing the user edits changed
+export const createCommand = (label: string, before: Workflow, after: Workflow, coalesceKey?: string): WorkflowCommand | null => {
+  const beforeNodes = new Map(before.nodes.map((node, index) => [node.id, { node, index }]));
+  const afterNodes = new Map(after.nodes.map((node, index) => [node.id, { node, index }]));
+
+  const nodes: NodeChange[] = [];
+  for (const [id, { node, index }] of beforeNodes) {
+    const next = afterNodes.get(id)?.node;
+    if (!next) {
+      nodes.push({ id, before: toEditable(node), after: null, index });
+    } else if (!isSameEditable(node, next)) {
+      nodes.push({ id, before: toEditable(node), after: toEditable(next), index });
+    }
+  }
+  for (const [id, { node, index }] of afterNodes) {
+    if (!beforeNodes.has(id)) nodes.push({ id, before: null, after: toEditable(node), index });
+  }
+
+  const connectionsAdded = withoutConnections(after.connections, before.connections);
+  const connectionsRemoved = withoutConnections(before.connections, after.connections);
+  if (nodes.length === 0 && connectionsAdded.length === 0 && connectionsRemoved.length === 0) return null;
+  return { label, coalesceKey, nodes, connectionsAdded, connectionsRemoved };
+};
+
+// Redo applies a command's changes to a workflow; undo reverts them
+export const applyCommand = (workflow: Workflow, command: WorkflowCommand, direction: HistoryDirection): Workflow => {
+  const forward = direction === 'redo';
+  const target = (change: NodeChange) => forward ? change.after : change.before;
+
+  const changes = new Map(command.nodes.map(change => [change.id, change]));
+  const nodes = workflow.nodes
+    .filter(node => !changes.has(node.id) || target(changes.get(node.id)!))
+    .map(node => {
+      const change = changes.get(node.id);
+      return change ? { ...node, ...target(change)! } : node;
+    });
+  // Nodes coming back go where they were, in ascending order so earlier inserts do not shift later ones
+  const restored = command.nodes
+    .filter(change => target(change) && !workflow.nodes.some(node => node.id === change.id))
+    .sort((a, b) => a.index - b.index);
+  for (const change of restored) {
+    nodes.splice(Math.min(change.index, nodes.length), 0, { ...target(change)!, status: 'idle' });
+  }
+
+  const added = forward ? command.connectionsAdded : command.connectionsRemoved;
+  const removed = forward ? command.connectionsRemoved : command.connectionsAdded;
+  return { nodes, connections: [...withoutConnections(workflow.connections, removed), ...added] };
+};
+
+// Fold a later command into an earlier one so both undo as one step
+const mergeCommands = (first: WorkflowCommand, second: WorkflowCommand): WorkflowCommand => {
+  const nodes = new Map(first.nodes.map(change => [change.id, change]));
+  for (const change of second.nodes) {
+    const earlier = nodes.get(change.id);
+    nodes.set(change.id, earlier ? { ...earlier, after: change.after } : change);
+  }
+  return {
+    ...first,
+    // A node added and removed again within the merge leaves nothing to undo
+    nodes: [...nodes.values()].filter(change => change.before || change.after),
+    connectionsAdded: [...withoutConnections(first.connectionsAdded, second.connectionsRemoved), ...second.connectionsAdded],
+    connectionsRemoved: [...first.connectionsRemoved, ...withoutConnections(second.connectionsRemoved, first.connectionsAdded)],
+  };
+};
+
+export class WorkflowHistory {
+  private undoStack: WorkflowCommand[] = [];
+  private redoStack: WorkflowCommand[] = [];
+  private canCoalesce = false; // Only a record directly after a record may merge
+  private readonly limit: number;
+
+  constructor(limit: number = MAX_HISTORY) {
+    this.limit = limit;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Label of the step undo would revert, for tooltips
+  get undoLabel(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.label;
+  }
+
+  get redoLabel(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.label;
+  }
+
+  record(command: WorkflowCommand) {
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (this.canCoalesce && last && command.coalesceKey && last.coalesceKey === command.coalesceKey) {
+      this.undoStack[this.undoStack.length - 1] = mergeCommands(last, command);
+    } else {
+      this.undoStack.push(command);
+      if (this.undoStack.length > this.limit) this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.canCoalesce = true;
+  }
+
+  // End a gesture, so the next record starts a new step even with the same coalesce key
+  endCoalescing() {
+    this.canCoalesce = false;
+  }
+
+  // The command to revert, moved onto the redo stack
+  undo(): WorkflowCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    this.redoStack.push(command);
+    this.canCoalesce = false;
+    return command;
+  }
+
+  redo(): WorkflowCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    this.undoStack.push(command);
+    this.canCoalesce = false;
+    return command;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.canCoalesce = false;
+  }
+}